@@ -1,22 +1,67 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { analyzeDataQuality, columnNames, inferColumnTypes, type AnalysisOptions } from "@/lib/analyze"
+import { contractIssues, parseContract, type ContractSchema } from "@/lib/contract"
+import { correlationSummary } from "@/lib/correlation"
+import { discoverCandidateKeys } from "@/lib/duplicates"
+import { DEFAULT_SIMILARITY_THRESHOLD } from "@/lib/near-duplicates"
+import { DEFAULT_IQR_MULTIPLIER, OUTLIER_METHODS, type OutlierOptions } from "@/lib/outliers"
+import { missingnessSummary } from "@/lib/missingness"
+import { profileColumns } from "@/lib/profile"
+import { GRID_PAGE_SIZE, capRowReferences } from "@/lib/references"
+import {
+  applySeverityThresholds,
+  qualityConfigSchema,
+  scoringWeights,
+  type QualityConfig,
+} from "@/lib/quality-config"
+import { parseRules } from "@/lib/rules"
+import { relationshipAnalysis } from "@/lib/relationships"
+import { qualityScores } from "@/lib/scoring"
+import { DEFAULT_SENTINELS } from "@/lib/sentinels"
+import { parseCSV, type CSVParseResult, type MalformedRow } from "@/lib/csv"
+import { decodeText, sniffDialect, type DecodedText, type Dialect } from "@/lib/sniff"
+import type {
+  AnalysisResult,
+  DataGrid,
+  DataIssue,
+  OutlierMethod,
+  ParseDetection,
+  TableSetAnalysis,
+  WorkbookAnalysis,
+} from "@/lib/types"
+import { ARROW_EXTENSIONS, PARQUET_EXTENSIONS, readArrowIPC, readParquet, type ColumnarDataset } from "@/lib/columnar"
+import { flattenRecords } from "@/lib/flatten"
+import {
+  JSON_LINES_EXTENSIONS,
+  JSON_LINES_MIME_TYPES,
+  lineErrorIssues,
+  looksLikeJSONLines,
+  parseJSONLines,
+} from "@/lib/jsonl"
+import { WORKBOOK_EXTENSIONS, WORKBOOK_MIME_TYPES, cellTypeIssues, readWorkbook } from "@/lib/workbook"
+
+const DELIMITED_EXTENSIONS = [".csv", ".tsv", ".txt", ".psv"]
+
+function tableName(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, "")
+}
 
-interface DataIssue {
-  column: string
-  severity: "Critical" | "Warning" | "Info"
-  type: string
-  description: string
-  count: number
-  percentage: number
-  explanation: string
-  recommendation: string
+// With several files, settings that belong to one table arrive prefixed with its file name ("orders.csv:primaryKey")
+function tablePrefix(file: File, files: File[]): string {
+  return files.length > 1 ? `${file.name}:` : ""
 }
 
-interface AnalysisResult {
-  summary: string
-  totalRows: number
-  totalColumns: number
-  issues: DataIssue[]
-  overallScore: number
+function readDialectOverrides(formData: FormData, prefix: string): Partial<Dialect> {
+  const overrides: Partial<Dialect> = {}
+  const delimiter = formData.get(`${prefix}delimiter`)
+  const quoteChar = formData.get(`${prefix}quoteChar`)
+  const hasHeader = formData.get(`${prefix}hasHeader`)
+
+  if (typeof delimiter === "string" && delimiter.length === 1) overrides.delimiter = delimiter
+  if (typeof quoteChar === "string" && quoteChar.length === 1) overrides.quoteChar = quoteChar
+  if (hasHeader === "true" || hasHeader === "false") overrides.hasHeader = hasHeader === "true"
+
+  return overrides
 }
 
 // Mock Gemini API call - replace with actual API integration
@@ -39,159 +84,418 @@ async function callGeminiAPI(prompt: string): Promise<string> {
   return "Data quality issue detected that requires attention for accurate analysis."
 }
 
-function parseCSV(csvText: string): any[] {
-  const lines = csvText.split("\n").filter((line) => line.trim())
-  if (lines.length === 0) return []
+function structuralIssues({ rows: parsedRows, malformedRows, unterminatedQuoteLine }: CSVParseResult): DataIssue[] {
+  const issues: DataIssue[] = []
+  const byFieldCount = new Map<number, MalformedRow[]>()
+
+  malformedRows.forEach((row) => {
+    byFieldCount.set(row.actual, [...(byFieldCount.get(row.actual) || []), row])
+  })
 
-  const headers = lines[0].split(",").map((h) => h.trim().replace(/"/g, ""))
-  const data = []
+  byFieldCount.forEach((rows, actual) => {
+    const { expected } = rows[0]
+    const rowNumbers = rows.slice(0, 10).map((r) => r.row)
+    const more = rows.length > rowNumbers.length ? ` and ${rows.length - rowNumbers.length} more` : ""
+    const percentage = (rows.length / (parsedRows.length + malformedRows.length)) * 100
+
+    issues.push({
+      column: "(row structure)",
+      severity: percentage > 5 ? "Critical" : "Warning",
+      type: "Structural",
+      description: `${rows.length} rows have ${actual} fields, expected ${expected} (rows ${rowNumbers.join(", ")}${more})`,
+      count: rows.length,
+      percentage,
+      explanation: `Rows with ${actual < expected ? "fewer" : "more"} fields than the header usually come from unquoted delimiters, truncated exports or stray line breaks. These rows were excluded from the column checks.`,
+      recommendation: `Inspect the source export around row ${rows[0].row} (line ${rows[0].line}) and make sure fields containing delimiters or line breaks are quoted.`,
+    })
+  })
 
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(",").map((v) => v.trim().replace(/"/g, ""))
-    if (values.length === headers.length) {
-      const row: any = {}
-      headers.forEach((header, index) => {
-        row[header] = values[index]
-      })
-      data.push(row)
-    }
+  if (unterminatedQuoteLine !== undefined) {
+    issues.push({
+      column: "(row structure)",
+      severity: "Critical",
+      type: "Structural",
+      description: `Unterminated quoted field starting on line ${unterminatedQuoteLine}`,
+      count: 1,
+      percentage: 0,
+      explanation: "A quoted field was never closed, so everything after it was read as a single value.",
+      recommendation: `Check line ${unterminatedQuoteLine} for a missing closing quote or an unescaped quote character.`,
+    })
   }
 
-  return data
+  return issues
+}
+
+function readStrings(formData: FormData, name: string): string[] {
+  return formData.getAll(name).filter((value): value is string => typeof value === "string" && value !== "")
 }
 
-function analyzeDataQuality(data: any[]): DataIssue[] {
-  if (!data.length) return []
+function isOutlierMethod(value: unknown): value is OutlierMethod {
+  return OUTLIER_METHODS.includes(value as OutlierMethod)
+}
 
-  const issues: DataIssue[] = []
-  const columns = Object.keys(data[0])
-  const totalRows = data.length
-
-  columns.forEach((column) => {
-    // Check for missing values
-    const missingCount = data.filter(
-      (row) => !row[column] || row[column] === "" || row[column] === "null" || row[column] === "undefined",
-    ).length
-
-    if (missingCount > 0) {
-      const percentage = (missingCount / totalRows) * 100
-      issues.push({
-        column,
-        severity: percentage > 20 ? "Critical" : percentage > 5 ? "Warning" : "Info",
-        type: "Missing Values",
-        description: `${missingCount} missing values found`,
-        count: missingCount,
-        percentage,
-        explanation: `Missing values in ${column} column likely indicate incomplete data collection or integration issues.`,
-        recommendation:
-          percentage > 10
-            ? `Consider data imputation strategies or investigate data collection process for ${column}.`
-            : `Monitor ${column} data collection to prevent further missing values.`,
-      })
+function readOutlierOptions(formData: FormData): OutlierOptions {
+  const method = formData.get("outlierMethod")
+  const multiplier = Number(formData.get("iqrMultiplier"))
+  const columnMethods: Record<string, OutlierMethod> = {}
+
+  // Per-column overrides arrive as a JSON object of column name to method
+  try {
+    const parsed = JSON.parse(String(formData.get("columnOutlierMethods") || "{}"))
+    Object.entries(parsed).forEach(([column, value]) => {
+      if (isOutlierMethod(value)) columnMethods[column] = value
+    })
+  } catch {
+    // Ignore malformed overrides and fall back to the global method
+  }
+
+  return {
+    method: isOutlierMethod(method) ? method : "auto",
+    columnMethods,
+    iqrMultiplier: multiplier > 0 ? multiplier : DEFAULT_IQR_MULTIPLIER,
+    multivariate: formData.get("multivariateOutliers") !== "false",
+  }
+}
+
+function readQualityConfig(formData: FormData): QualityConfig | undefined {
+  try {
+    const parsed = qualityConfigSchema.safeParse(JSON.parse(String(formData.get("qualityConfig") || "{}")))
+    return parsed.success ? parsed.data : undefined
+  } catch {
+    // Ignore a malformed config and analyze with the defaults
+    return undefined
+  }
+}
+
+function readAnalysisOptions(formData: FormData, prefix: string): AnalysisOptions {
+  const primaryKey = readStrings(formData, `${prefix}primaryKey`)
+  const threshold = Number(formData.get("similarityThreshold"))
+
+  return {
+    primaryKey: primaryKey.length > 0 ? primaryKey : undefined,
+    nearDuplicates: {
+      threshold: threshold > 0 && threshold <= 1 ? threshold : DEFAULT_SIMILARITY_THRESHOLD,
+      blockingKeys: readStrings(formData, `${prefix}blockingKeys`),
+    },
+    sentinels: formData.has("sentinels") ? readStrings(formData, "sentinels") : undefined,
+    outliers: readOutlierOptions(formData),
+    quality: readQualityConfig(formData),
+  }
+}
+
+function cellText(value: unknown): string {
+  return value === null || value === undefined ? "" : String(value)
+}
+
+// The whole dataset, which cross-table checks need; it is cut down to one page by gridPage before responding
+function dataGrid(data: any[], columns: string[], issues: DataIssue[]): DataGrid {
+  return {
+    columns,
+    offset: 0,
+    rows: data.map((row) => columns.map((column) => cellText(row[column]))),
+    totalRows: data.length,
+    issueRows: issues.map((issue) => [...(issue.rowReferences?.rows || [])].sort((a, b) => a - b)),
+    referencedRows: {},
+  }
+}
+
+// A response only fits one page of rows, plus the rows the (capped) issues point at for the drill-down
+function gridPage(grid: DataGrid, offset: number, issues: DataIssue[]): DataGrid {
+  const end = offset + GRID_PAGE_SIZE
+  const referencedRows: Record<number, string[]> = {}
+  issues.forEach((issue) =>
+    issue.rowReferences?.rows.forEach((rowNumber) => {
+      if (grid.rows[rowNumber - 1]) referencedRows[rowNumber] = grid.rows[rowNumber - 1]
+    }),
+  )
+
+  return {
+    columns: grid.columns,
+    offset,
+    rows: grid.rows.slice(offset, end),
+    totalRows: grid.totalRows,
+    issueRows: grid.issueRows.map((rows) => rows.filter((rowNumber) => rowNumber > offset && rowNumber <= end)),
+    referencedRows,
+  }
+}
+
+function readRowOffset(formData: FormData): number {
+  const offset = Number(formData.get("rowOffset"))
+  return Number.isInteger(offset) && offset > 0 ? offset : 0
+}
+
+interface DatasetOptions extends AnalysisOptions {
+  // JSON Schema the records are validated against; checked here because it needs the records before flattening
+  contract?: ContractSchema
+}
+
+async function analyzeDataset(
+  data: any[],
+  parseIssues: DataIssue[],
+  options: DatasetOptions,
+  records?: Record<string, any>[],
+): Promise<AnalysisResult> {
+  const columns = columnNames(data)
+  const columnTypes = inferColumnTypes(data, columns)
+
+  const correlations = correlationSummary(data, columnTypes)
+
+  // Analyze data quality; parse and contract issues are graded against the configured thresholds here, the rest
+  // inside analyzeDataQuality
+  const issues = [
+    ...applySeverityThresholds(parseIssues, options.quality),
+    ...analyzeDataQuality(data, columnTypes, options, correlations),
+  ]
+  if (options.contract) {
+    issues.push(...applySeverityThresholds(contractIssues(data, columns, options.contract, records), options.quality))
+  }
+
+  // Generate summary using mock Gemini API
+  const summary = await callGeminiAPI(`Generate a dataset summary for: ${JSON.stringify(data.slice(0, 3))}`)
+
+  // Score each quality dimension by the share of cells affected
+  const scores = qualityScores(issues, columnTypes, data.length, scoringWeights(options.quality))
+
+  return {
+    summary,
+    totalRows: data.length,
+    totalColumns: columns.length,
+    issues: issues.map(capRowReferences),
+    overallScore: scores.overall,
+    scores,
+    columnTypes,
+    candidateKeys: discoverCandidateKeys(data, columnTypes),
+    primaryKey: options.primaryKey,
+    similarityThreshold: options.nearDuplicates?.threshold,
+    sentinels: options.sentinels ?? DEFAULT_SENTINELS,
+    grid: dataGrid(data, columns, issues),
+    profiles: profileColumns(data, columnTypes),
+    missingness: missingnessSummary(data, columns),
+    correlations,
+  }
+}
+
+// A problem with the uploaded data itself, reported to the client as a 400
+class UploadError extends Error {}
+
+async function analyzeUpload(
+  file: File,
+  formData: FormData,
+  options: DatasetOptions,
+  prefix: string,
+): Promise<AnalysisResult | WorkbookAnalysis> {
+  const fileName = file.name.toLowerCase()
+
+  if (WORKBOOK_MIME_TYPES.includes(file.type) || WORKBOOK_EXTENSIONS.some((ext) => fileName.endsWith(ext))) {
+    const sheets = readWorkbook(await file.arrayBuffer())
+    const requested = readStrings(formData, `${prefix}sheets`)
+    const selected = sheets.filter(
+      (sheet) => sheet.rows.length > 0 && (requested.length === 0 || requested.includes(sheet.name)),
+    )
+
+    if (selected.length === 0) {
+      throw new UploadError("No data found in the selected sheets")
+    }
+
+    const workbook: WorkbookAnalysis = {
+      sheetNames: sheets.map((sheet) => sheet.name),
+      sheets: await Promise.all(
+        selected.map(async (sheet) => ({
+          ...(await analyzeDataset(sheet.rows, cellTypeIssues(sheet), options)),
+          sheetName: sheet.name,
+        })),
+      ),
+    }
+
+    return workbook
+  }
+
+  const isParquet = PARQUET_EXTENSIONS.some((ext) => fileName.endsWith(ext))
+  if (isParquet || ARROW_EXTENSIONS.some((ext) => fileName.endsWith(ext))) {
+    let dataset: ColumnarDataset
+    try {
+      const buffer = await file.arrayBuffer()
+      dataset = isParquet ? await readParquet(buffer) : readArrowIPC(buffer)
+    } catch (e) {
+      throw new UploadError(`Invalid ${isParquet ? "Parquet" : "Arrow IPC"} file`)
     }
 
-    // Check for duplicates
-    const values = data.map((row) => row[column]).filter((v) => v)
-    const uniqueValues = new Set(values)
-    const duplicateCount = values.length - uniqueValues.size
-
-    if (duplicateCount > 0 && column.toLowerCase().includes("id")) {
-      const percentage = (duplicateCount / totalRows) * 100
-      issues.push({
-        column,
-        severity: "Critical",
-        type: "Duplicate Values",
-        description: `${duplicateCount} duplicate values in ID column`,
-        count: duplicateCount,
-        percentage,
-        explanation: `Duplicate IDs indicate data integrity issues that can cause incorrect analysis results.`,
-        recommendation: `Implement unique constraints and data deduplication process for ${column}.`,
-      })
+    if (dataset.rows.length === 0) {
+      throw new UploadError("No data found in file")
     }
 
-    // Check for outliers in numeric columns
-    const numericValues = data.map((row) => Number.parseFloat(row[column])).filter((v) => !isNaN(v))
-
-    if (numericValues.length > 0) {
-      const sorted = numericValues.sort((a, b) => a - b)
-      const q1 = sorted[Math.floor(sorted.length * 0.25)]
-      const q3 = sorted[Math.floor(sorted.length * 0.75)]
-      const iqr = q3 - q1
-      const lowerBound = q1 - 1.5 * iqr
-      const upperBound = q3 + 1.5 * iqr
-
-      const outliers = numericValues.filter((v) => v < lowerBound || v > upperBound)
-
-      if (outliers.length > 0) {
-        const percentage = (outliers.length / numericValues.length) * 100
-        issues.push({
-          column,
-          severity: percentage > 10 ? "Warning" : "Info",
-          type: "Outliers",
-          description: `${outliers.length} potential outliers detected`,
-          count: outliers.length,
-          percentage,
-          explanation: `Statistical outliers in ${column} may indicate data entry errors or genuine extreme values.`,
-          recommendation: `Review outlier values in ${column} to determine if they are valid or require correction.`,
-        })
+    const result: AnalysisResult = {
+      ...(await analyzeDataset(dataset.rows, dataset.issues, options)),
+      schema: dataset.schema,
+    }
+
+    return result
+  }
+
+  const encodingOverride = formData.get(`${prefix}encoding`)
+  let decoded: DecodedText
+  try {
+    decoded = decodeText(
+      await file.arrayBuffer(),
+      typeof encodingOverride === "string" && encodingOverride ? encodingOverride : undefined,
+    )
+  } catch (e) {
+    throw new UploadError(`Unsupported encoding: ${encodingOverride}`)
+  }
+
+  const { text } = decoded
+  let data: any[] = []
+  let records: Record<string, any>[] | undefined
+  let parseIssues: DataIssue[] = []
+  const detection: ParseDetection = {
+    encoding: decoded.encoding,
+    bom: decoded.bom,
+    // A byte-order mark decides the encoding, so an override only counts when there is none
+    overridden: encodingOverride && !decoded.bom ? ["encoding"] : [],
+  }
+
+  // Parse file based on type
+  if (
+    file.type === "text/csv" ||
+    file.type === "text/tab-separated-values" ||
+    DELIMITED_EXTENSIONS.some((ext) => fileName.endsWith(ext))
+  ) {
+    const overrides = readDialectOverrides(formData, prefix)
+    const dialect = sniffDialect(text, overrides)
+    const parsed = parseCSV(text, { delimiter: dialect.delimiter, quote: dialect.quoteChar, hasHeader: dialect.hasHeader })
+    data = parsed.rows
+    parseIssues = structuralIssues(parsed)
+    Object.assign(detection, dialect)
+    detection.overridden.push(...Object.keys(overrides))
+  } else if (JSON_LINES_MIME_TYPES.includes(file.type) || JSON_LINES_EXTENSIONS.some((ext) => fileName.endsWith(ext))) {
+    const parsed = parseJSONLines(text)
+    records = parsed.records
+    parseIssues = lineErrorIssues(parsed)
+  } else if (file.type === "application/json" || fileName.endsWith(".json")) {
+    try {
+      const jsonData = JSON.parse(text)
+      records = Array.isArray(jsonData) ? jsonData : [jsonData]
+    } catch (e) {
+      if (!looksLikeJSONLines(text)) {
+        throw new UploadError("Invalid JSON format")
       }
+      const parsed = parseJSONLines(text)
+      records = parsed.records
+      parseIssues = lineErrorIssues(parsed)
     }
-  })
+  }
 
-  return issues
+  // JSON records may be nested and may not share the same keys
+  if (records) {
+    const flattened = flattenRecords(records)
+    data = flattened.rows
+    parseIssues = [...parseIssues, ...flattened.issues]
+  }
+
+  if (data.length === 0) {
+    throw new UploadError("No data found in file")
+  }
+
+  const result: AnalysisResult = { ...(await analyzeDataset(data, parseIssues, options, records)), detection }
+
+  return result
 }
 
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData()
-    const file = formData.get("file") as File
+    const files = formData.getAll("file").filter((value): value is File => value instanceof File)
 
-    if (!file) {
+    if (files.length === 0) {
       return NextResponse.json({ error: "No file provided" }, { status: 400 })
     }
 
-    const text = await file.text()
-    let data: any[] = []
-
-    // Parse file based on type
-    if (file.type === "text/csv" || file.name.endsWith(".csv")) {
-      data = parseCSV(text)
-    } else if (file.type === "application/json" || file.name.endsWith(".json")) {
-      try {
-        const jsonData = JSON.parse(text)
-        data = Array.isArray(jsonData) ? jsonData : [jsonData]
-      } catch (e) {
-        return NextResponse.json({ error: "Invalid JSON format" }, { status: 400 })
-      }
+    // Rules were written on purpose, so a mistake in them is reported rather than skipped
+    const { rules, errors: ruleErrors } = parseRules(String(formData.get("rules") || ""))
+    if (ruleErrors.length > 0) {
+      return NextResponse.json({ error: `Invalid rules: ${ruleErrors.join("; ")}` }, { status: 400 })
     }
 
-    if (data.length === 0) {
-      return NextResponse.json({ error: "No data found in file" }, { status: 400 })
+    const contractText = formData.get("contract")
+    const contract = typeof contractText === "string" && contractText.trim() ? parseContract(contractText) : {}
+    if (contract.error) {
+      return NextResponse.json({ error: `Invalid contract: ${contract.error}` }, { status: 400 })
     }
 
-    // Analyze data quality
-    const issues = analyzeDataQuality(data)
+    const analyze = (file: File) => {
+      const prefix = tablePrefix(file, files)
+      const options: DatasetOptions = { ...readAnalysisOptions(formData, prefix), rules, contract: contract.schema }
+      return analyzeUpload(file, formData, options, prefix)
+    }
 
-    // Generate summary using mock Gemini API
-    const summary = await callGeminiAPI(`Generate a dataset summary for: ${JSON.stringify(data.slice(0, 3))}`)
+    const offset = readRowOffset(formData)
+    const paged = (result: AnalysisResult, related: DataIssue[] = []): AnalysisResult =>
+      result.grid ? { ...result, grid: gridPage(result.grid, offset, [...result.issues, ...related]) } : result
+
+    // A later page of the preview grid re-runs the same analysis and answers with just that table's grid
+    const respond = (body: AnalysisResult | WorkbookAnalysis | TableSetAnalysis) => {
+      if (!formData.has("rowOffset")) return NextResponse.json(body)
+      const tables = "tables" in body ? body.tables : "sheets" in body ? body.sheets : [body]
+      const gridTable = formData.get("gridTable")
+      const table = tables.find((t) => !gridTable || (t.tableName ?? t.sheetName) === gridTable)
+      if (!table?.grid) return NextResponse.json({ error: `No table named ${gridTable}` }, { status: 400 })
+      return NextResponse.json(table.grid)
+    }
 
-    // Calculate overall quality score
-    const criticalIssues = issues.filter((i) => i.severity === "Critical").length
-    const warningIssues = issues.filter((i) => i.severity === "Warning").length
-    const totalColumns = Object.keys(data[0]).length
+    if (files.length === 1) {
+      const result = await analyze(files[0])
+      return respond(
+        "sheets" in result ? { ...result, sheets: result.sheets.map((sheet) => paged(sheet)) } : paged(result),
+      )
+    }
 
-    const overallScore = Math.max(0, Math.round(100 - criticalIssues * 20 - warningIssues * 10))
+    // Related tables: each file (or workbook sheet) is analyzed on its own, then checked against the others
+    const tables: AnalysisResult[] = []
+    for (const file of files) {
+      let result: AnalysisResult | WorkbookAnalysis
+      try {
+        result = await analyze(file)
+      } catch (error) {
+        if (error instanceof UploadError) throw new UploadError(`${file.name}: ${error.message}`)
+        throw error
+      }
+      // Two uploads can share a base name (orders.csv and orders.json); keep table names unique
+      const base = tableName(file.name)
+      const taken = new Set(tables.map((table) => table.tableName))
+      let name = base
+      for (let n = 2; taken.has(name); n++) name = `${base} (${n})`
+      if ("sheets" in result) {
+        const sheets = result.sheets.map((sheet) => ({
+          ...sheet,
+          tableName: `${name}.${sheet.sheetName}`,
+          fileName: file.name,
+        }))
+        tables.push(...sheets)
+      } else {
+        tables.push({ ...result, tableName: name, fileName: file.name })
+      }
+    }
 
-    const result: AnalysisResult = {
-      summary,
-      totalRows: data.length,
-      totalColumns,
-      issues,
-      overallScore,
+    const { relationships, issues } = relationshipAnalysis(
+      tables.map((table) => ({
+        name: table.tableName!,
+        columns: table.grid!.columns,
+        rows: table.grid!.rows,
+        columnTypes: table.columnTypes!,
+      })),
+    )
+    const tableSetIssues = applySeverityThresholds(issues, readQualityConfig(formData)).map(capRowReferences)
+    const analysis: TableSetAnalysis = {
+      tables: tables.map((table) => paged(table, tableSetIssues.filter((issue) => issue.table === table.tableName))),
+      relationships,
+      issues: tableSetIssues,
     }
 
-    return NextResponse.json(result)
+    return respond(analysis)
   } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error("Analysis error:", error)
     return NextResponse.json({ error: "Failed to analyze file" }, { status: 500 })
   }
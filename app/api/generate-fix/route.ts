@@ -7,6 +7,68 @@ interface DataIssue {
   description: string
   count: number
   percentage: number
+  variantGroups?: { canonical: string; variants: { value: string; count: number }[] }[]
+  outlierMethod?: string
+  bounds?: { lower: number; upper: number }
+}
+
+// Every non-canonical variant paired with the value it should become
+function variantMapping(issue: DataIssue): [string, string][] {
+  return (issue.variantGroups || []).flatMap((group) =>
+    group.variants.filter((v) => v.value !== group.canonical).map((v): [string, string] => [v.value, group.canonical]),
+  )
+}
+
+function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`
+}
+
+// Flattened column names (`customer.address.city`, `items[].sku`) aren't valid bare SQL identifiers
+function sqlIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`
+}
+
+// JSON string escapes are valid Python, so names with quotes or backslashes stay one literal
+function pyString(value: string): string {
+  return JSON.stringify(value)
+}
+
+// The pandas call that loads the uploaded file, by its extension
+function pandasReader(fileName: string): string {
+  const path = pyString(fileName)
+  switch (fileName.split(".").pop()?.toLowerCase()) {
+    case "tsv":
+      return `pd.read_csv(${path}, sep="\\t")`
+    case "psv":
+      return `pd.read_csv(${path}, sep="|")`
+    case "json":
+      return `pd.read_json(${path})`
+    case "jsonl":
+    case "ndjson":
+      return `pd.read_json(${path}, lines=True)`
+    case "xlsx":
+    case "xls":
+      return `pd.read_excel(${path})  # first sheet; pass sheet_name= for another`
+    case "parquet":
+    case "pq":
+      return `pd.read_parquet(${path})`
+    case "arrow":
+    case "feather":
+    case "ipc":
+      return `pd.read_feather(${path})`
+    default:
+      return `pd.read_csv(${path})`
+  }
+}
+
+// Cleaned output is written as CSV next to the original, whatever the input format
+function cleanedFileName(fileName: string, suffix: string): string {
+  return pyString(`${fileName.replace(/\.[^.]+$/, "")}_${suffix}.csv`)
+}
+
+// A plain lower_snake name derived from the column, usable as a table or file name
+function safeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "column"
 }
 
 function generateFixCode(issue: DataIssue, fileName: string): string {
@@ -71,6 +133,64 @@ WHERE id IN (
 );`
       }
 
+    case "Inconsistent Categories": {
+      const mapping = variantMapping(issue)
+      const mappingName = `${safeName(issue.column)}_mapping`
+      const column = sqlIdentifier(issue.column)
+      if (fileExt === "csv") {
+        const pyColumn = pyString(issue.column)
+        return `# Canonicalize spelling variants in ${issue.column}
+import pandas as pd
+
+# Load the dataset
+df = ${pandasReader(fileName)}
+
+# Mapping table: variant -> canonical value
+mapping = pd.DataFrame(
+    [
+${mapping.map(([variant, canonical]) => `        (${JSON.stringify(variant)}, ${JSON.stringify(canonical)}),`).join("\n")}
+    ],
+    columns=['variant', 'canonical'],
+)
+mapping.to_csv('${mappingName}.csv', index=False)
+
+# Apply the mapping, leaving values without a variant untouched
+df[${pyColumn}] = df[${pyColumn}].replace(dict(zip(mapping['variant'], mapping['canonical'])))
+
+# Save the cleaned dataset
+df.to_csv(${cleanedFileName(fileName, "canonicalized")}, index=False)`
+      } else {
+        return `-- Mapping table to canonicalize ${issue.column}
+CREATE TABLE ${mappingName} (
+    variant   VARCHAR PRIMARY KEY,
+    canonical VARCHAR NOT NULL
+);
+
+INSERT INTO ${mappingName} (variant, canonical) VALUES
+${mapping.map(([variant, canonical]) => `    (${sqlString(variant)}, ${sqlString(canonical)})`).join(",\n")};
+
+UPDATE your_table
+SET ${column} = m.canonical
+FROM ${mappingName} m
+WHERE your_table.${column} = m.variant;`
+      }
+    }
+
+    case "Duplicate Rows":
+      return `# Remove fully duplicated rows
+import pandas as pd
+
+# Load the dataset
+df = ${pandasReader(fileName)}
+
+# Drop rows that are identical across every column, keeping the first occurrence
+df_cleaned = df.drop_duplicates(keep='first')
+
+# Save the cleaned dataset
+df_cleaned.to_csv(${cleanedFileName(fileName, "deduped")}, index=False)
+
+print(f"Removed {len(df) - len(df_cleaned)} duplicate rows")`
+
     case "Outliers":
       return `# Handle outliers in ${issue.column}
 import pandas as pd
@@ -79,14 +199,20 @@ import numpy as np
 # Load the dataset
 df = pd.read_csv('${fileName}')
 
-# Calculate IQR
+${
+  issue.bounds
+    ? `# Bounds found by the ${issue.outlierMethod} method during analysis
+lower_bound = ${issue.bounds.lower}
+upper_bound = ${issue.bounds.upper}`
+    : `# Calculate IQR
 Q1 = df['${issue.column}'].quantile(0.25)
 Q3 = df['${issue.column}'].quantile(0.75)
 IQR = Q3 - Q1
 
 # Define outlier bounds
 lower_bound = Q1 - 1.5 * IQR
-upper_bound = Q3 + 1.5 * IQR
+upper_bound = Q3 + 1.5 * IQR`
+}
 
 # Option 1: Cap outliers
 df['${issue.column}'] = np.clip(df['${issue.column}'], lower_bound, upper_bound)
@@ -2,65 +2,177 @@
 
 import { useState, useCallback } from "react"
 import { useDropzone } from "react-dropzone"
-import { Upload, AlertCircle, CheckCircle, Loader2, Code } from "lucide-react"
+import { Upload, AlertCircle, CheckCircle, Loader2, Code, Rows3 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
+import { AUTO_PARSE_OPTIONS, ParseOptionsPanel, appendParseOptions, type ParseOptions } from "@/components/parse-options"
+import { ColumnProfiles } from "@/components/column-profiles"
+import { ContractSettings } from "@/components/contract-settings"
+import { CorrelationView } from "@/components/correlation-view"
+import { DataGridPreview } from "@/components/data-grid"
+import { IssueRows } from "@/components/issue-rows"
+import { KeyPicker } from "@/components/key-picker"
+import { MissingnessView } from "@/components/missingness-view"
+import { DuplicateClusters, NearDuplicateSettings } from "@/components/near-duplicate-settings"
+import {
+  DEFAULT_OUTLIER_SETTINGS,
+  OutlierSettings,
+  appendOutlierSettings,
+  type OutlierSettingsValue,
+} from "@/components/outlier-settings"
+import { QualityConfigDialog } from "@/components/quality-config-dialog"
+import { ScoreBreakdown, ScoreRadar } from "@/components/quality-scores"
+import { RulesSettings } from "@/components/rules-settings"
+import { SchemaSummary } from "@/components/schema-summary"
+import { SentinelSettings } from "@/components/sentinel-settings"
+import { SheetPicker } from "@/components/sheet-picker"
+import { TableSetView } from "@/components/table-set-view"
+import { VariantGroups } from "@/components/variant-groups"
+import { parseContract } from "@/lib/contract"
+import type { QualityConfig } from "@/lib/quality-config"
+import { parseRules } from "@/lib/rules"
+import type { AnalysisResult, DataGrid, DataIssue, TableSetAnalysis, WorkbookAnalysis } from "@/lib/types"
 
-interface DataIssue {
-  column: string
-  severity: "Critical" | "Warning" | "Info"
-  type: string
-  description: string
-  count: number
-  percentage: number
-  explanation: string
-  recommendation: string
-  fixCode?: string
+interface AnalyzeSettings {
+  parseOptions: ParseOptions
+  sheets: string[]
+  primaryKey: string[]
+  similarityThreshold: number
+  blockingKeys: string[]
+  // undefined leaves the placeholder list to the server's defaults
+  sentinels?: string[]
+  outliers: OutlierSettingsValue
+  quality: QualityConfig
+  // YAML or JSON rules as written; blank for none
+  rules: string
+  // JSON Schema text; blank for none
+  contract: string
+  // In a related-table upload, the per-table settings of every file, keyed by file name
+  tables: Record<string, TableSettings>
 }
 
-interface AnalysisResult {
-  summary: string
-  totalRows: number
-  totalColumns: number
-  issues: DataIssue[]
-  overallScore: number
+// Settings that describe one file's layout and keys rather than team policy
+type TableSettings = Pick<AnalyzeSettings, "parseOptions" | "sheets" | "primaryKey" | "blockingKeys">
+
+const DEFAULT_SETTINGS: AnalyzeSettings = {
+  parseOptions: AUTO_PARSE_OPTIONS,
+  sheets: [],
+  primaryKey: [],
+  similarityThreshold: 0.9,
+  blockingKeys: [],
+  outliers: DEFAULT_OUTLIER_SETTINGS,
+  quality: {},
+  rules: "",
+  contract: "",
+  tables: {},
+}
+
+const DEFAULT_TABLE_SETTINGS: TableSettings = {
+  parseOptions: DEFAULT_SETTINGS.parseOptions,
+  sheets: DEFAULT_SETTINGS.sheets,
+  primaryKey: DEFAULT_SETTINGS.primaryKey,
+  blockingKeys: DEFAULT_SETTINGS.blockingKeys,
 }
 
 export default function DataQualityAnnotator() {
-  const [file, setFile] = useState<File | null>(null)
+  const [files, setFiles] = useState<File[]>([])
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null)
   const [loading, setLoading] = useState(false)
   const [progress, setProgress] = useState(0)
   const [activeTab, setActiveTab] = useState("analyzed")
+  const [parseOptions, setParseOptions] = useState<ParseOptions>(AUTO_PARSE_OPTIONS)
+  const [workbook, setWorkbook] = useState<WorkbookAnalysis | null>(null)
+  const [tableSet, setTableSet] = useState<TableSetAnalysis | null>(null)
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([])
+  const [primaryKey, setPrimaryKey] = useState<string[]>([])
+  const [similarityThreshold, setSimilarityThreshold] = useState(DEFAULT_SETTINGS.similarityThreshold)
+  const [blockingKeys, setBlockingKeys] = useState<string[]>([])
+  // The state above holds the selected table's settings; the other tables' are parked here by file name
+  const [tableSettings, setTableSettings] = useState<Record<string, TableSettings>>({})
+  const [sentinels, setSentinels] = useState<string[] | undefined>()
+  const [outlierSettings, setOutlierSettings] = useState(DEFAULT_OUTLIER_SETTINGS)
+  // Thresholds, weights, rules and contracts are team policy rather than per-file choices, so they carry over to the
+  // next upload
+  const [qualityConfig, setQualityConfig] = useState<QualityConfig>({})
+  const [rules, setRules] = useState("")
+  const [contract, setContract] = useState("")
+  // Keyed like generateFix matches issues, so an open panel survives the issue being replaced with its fix
+  const [expandedIssues, setExpandedIssues] = useState<Set<string>>(new Set())
+  // The request behind the current analysis, re-sent to fetch further pages of the data preview
+  const [analysisRequest, setAnalysisRequest] = useState<FormData | null>(null)
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
-    const uploadedFile = acceptedFiles[0]
-    if (uploadedFile && (uploadedFile.type === "text/csv" || uploadedFile.type === "application/json")) {
-      setFile(uploadedFile)
-      analyzeFile(uploadedFile)
+    // The dropzone has already filtered by the accepted types
+    if (acceptedFiles.length > 0) {
+      setFiles(acceptedFiles)
+      setParseOptions(AUTO_PARSE_OPTIONS)
+      setPrimaryKey([])
+      setSimilarityThreshold(DEFAULT_SETTINGS.similarityThreshold)
+      setBlockingKeys([])
+      setTableSettings({})
+      setSentinels(undefined)
+      setOutlierSettings(DEFAULT_OUTLIER_SETTINGS)
+      setExpandedIssues(new Set())
+      analyzeFiles(acceptedFiles, { ...DEFAULT_SETTINGS, quality: qualityConfig, rules, contract })
     }
-  }, [])
+  }, [qualityConfig, rules, contract])
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
       "text/csv": [".csv"],
+      "text/tab-separated-values": [".tsv"],
+      "text/plain": [".txt", ".psv"],
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [".xlsx"],
+      "application/vnd.ms-excel": [".xls"],
+      "application/vnd.apache.parquet": [".parquet", ".pq"],
+      "application/vnd.apache.arrow.file": [".arrow", ".feather", ".ipc"],
       "application/json": [".json"],
+      "application/x-ndjson": [".jsonl", ".ndjson"],
     },
     maxSize: 4 * 1024 * 1024, // 4MB limit for Vercel
-    multiple: false,
+    multiple: true,
   })
 
-  const analyzeFile = async (file: File) => {
+  const analyzeFiles = async (files: File[], settings: AnalyzeSettings) => {
     setLoading(true)
     setProgress(0)
 
     try {
       const formData = new FormData()
-      formData.append("file", file)
+      files.forEach((file) => formData.append("file", file))
+      const appendTableSettings = (table: TableSettings, prefix: string) => {
+        appendParseOptions(formData, table.parseOptions, prefix)
+        table.sheets.forEach((sheetName) => formData.append(`${prefix}sheets`, sheetName))
+        table.primaryKey.forEach((column) => formData.append(`${prefix}primaryKey`, column))
+        table.blockingKeys.forEach((column) => formData.append(`${prefix}blockingKeys`, column))
+      }
+      // A key or delimiter chosen for one related table means nothing for the others
+      if (files.length > 1) {
+        files.forEach((file) =>
+          appendTableSettings(settings.tables[file.name] ?? DEFAULT_TABLE_SETTINGS, `${file.name}:`),
+        )
+      } else {
+        appendTableSettings(settings, "")
+      }
+      formData.append("similarityThreshold", String(settings.similarityThreshold))
+      if (settings.sentinels) {
+        // An empty field still tells the server the list was set, even when every placeholder was removed
+        if (settings.sentinels.length === 0) formData.append("sentinels", "")
+        settings.sentinels.forEach((sentinel) => formData.append("sentinels", sentinel))
+      }
+      appendOutlierSettings(formData, settings.outliers)
+      if (Object.keys(settings.quality).length > 0) formData.append("qualityConfig", JSON.stringify(settings.quality))
+      // Rules or a contract still being edited would fail the whole request, so only ones that parse are sent
+      if (settings.rules.trim() && parseRules(settings.rules).errors.length === 0) {
+        formData.append("rules", settings.rules)
+      }
+      if (settings.contract.trim() && parseContract(settings.contract).schema) {
+        formData.append("contract", settings.contract)
+      }
 
       // Simulate progress
       const progressInterval = setInterval(() => {
@@ -79,8 +191,23 @@ export default function DataQualityAnnotator() {
         throw new Error("Analysis failed")
       }
 
-      const result = await response.json()
-      setAnalysis(result)
+      const result: AnalysisResult | WorkbookAnalysis | TableSetAnalysis = await response.json()
+      setAnalysisRequest(formData)
+      if ("tables" in result) {
+        setTableSet(result)
+        setWorkbook(null)
+        // A re-check keeps the selected table, whose settings are the ones held in state
+        setAnalysis((prev) => result.tables.find((table) => table.tableName === prev?.tableName) ?? result.tables[0])
+      } else if ("sheets" in result) {
+        setTableSet(null)
+        setWorkbook(result)
+        setSelectedSheets(result.sheets.map((sheet) => sheet.sheetName || ""))
+        setAnalysis(result.sheets[0])
+      } else {
+        setTableSet(null)
+        setWorkbook(null)
+        setAnalysis(result)
+      }
     } catch (error) {
       console.error("Analysis error:", error)
     } finally {
@@ -89,24 +216,89 @@ export default function DataQualityAnnotator() {
     }
   }
 
+  const activeTableSettings = (): TableSettings => ({
+    parseOptions,
+    sheets: workbook ? selectedSheets : [],
+    primaryKey,
+    blockingKeys,
+  })
+
+  const currentSettings = (): AnalyzeSettings => ({
+    ...activeTableSettings(),
+    similarityThreshold,
+    sentinels,
+    outliers: outlierSettings,
+    quality: qualityConfig,
+    rules,
+    contract,
+    tables: analysis?.fileName ? { ...tableSettings, [analysis.fileName]: activeTableSettings() } : tableSettings,
+  })
+
+  // Parks the selected table's settings and brings back the next table's, so each file keeps its own
+  const selectTable = (tableName: string) => {
+    const next = tableSet?.tables.find((table) => table.tableName === tableName)
+    if (!next) return
+    if (analysis?.fileName && next.fileName && next.fileName !== analysis.fileName) {
+      setTableSettings((current) => ({ ...current, [analysis.fileName!]: activeTableSettings() }))
+      const saved = tableSettings[next.fileName] ?? DEFAULT_TABLE_SETTINGS
+      setParseOptions(saved.parseOptions)
+      setSelectedSheets(saved.sheets)
+      setPrimaryKey(saved.primaryKey)
+      setBlockingKeys(saved.blockingKeys)
+    }
+    setAnalysis(next)
+  }
+
+  const loadGridPage = async (offset: number): Promise<DataGrid> => {
+    const formData = new FormData()
+    analysisRequest?.forEach((value, name) => formData.append(name, value))
+    formData.append("rowOffset", String(offset))
+    const table = analysis?.tableName ?? analysis?.sheetName
+    if (table) formData.append("gridTable", table)
+
+    const response = await fetch("/api/analyze", {
+      method: "POST",
+      body: formData,
+    })
+    if (!response.ok) {
+      throw new Error("Loading rows failed")
+    }
+    return response.json()
+  }
+
+  // Several issues can share a column and type (structural problems all sit on "(row structure)")
+  const issueKey = (issue: DataIssue) => `${issue.column}\u0000${issue.type}\u0000${issue.description}`
+
+  const toggleIssueRows = (issue: DataIssue) => {
+    setExpandedIssues((current) => {
+      const next = new Set(current)
+      if (next.has(issueKey(issue))) next.delete(issueKey(issue))
+      else next.add(issueKey(issue))
+      return next
+    })
+  }
+
   const generateFix = async (issue: DataIssue) => {
     try {
       const response = await fetch("/api/generate-fix", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ issue, fileName: file?.name }),
+        body: JSON.stringify({ issue, fileName: analysis?.fileName ?? files[0]?.name }),
       })
 
       const { fixCode } = await response.json()
 
-      // Update the issue with the generated fix
-      setAnalysis((prev) =>
+      // Update the issue with the generated fix, and the table it belongs to so switching tables keeps it
+      const withFix = (result: AnalysisResult): AnalysisResult => ({
+        ...result,
+        issues: result.issues.map((i) => (issueKey(i) === issueKey(issue) ? { ...i, fixCode } : i)),
+      })
+      setAnalysis((prev) => (prev ? withFix(prev) : null))
+      setTableSet((prev) =>
         prev
           ? {
               ...prev,
-              issues: prev.issues.map((i) =>
-                i.column === issue.column && i.type === issue.type ? { ...i, fixCode } : i,
-              ),
+              tables: prev.tables.map((table) => (table.tableName === analysis?.tableName ? withFix(table) : table)),
             }
           : null,
       )
@@ -169,16 +361,19 @@ export default function DataQualityAnnotator() {
               </div>
             </div>
             {analysis && (
-              <div className="text-right">
-                <div className="text-2xl font-bold text-gray-800">{analysis.overallScore}%</div>
-                <div className="text-sm text-gray-600">Quality Score</div>
+              <div className="flex items-center gap-4">
+                {analysis.scores && <ScoreRadar scores={analysis.scores} />}
+                <div className="text-right">
+                  <div className="text-2xl font-bold text-gray-800">{analysis.overallScore}%</div>
+                  <div className="text-sm text-gray-600">Quality Score</div>
+                </div>
               </div>
             )}
           </div>
         </div>
 
         {/* Upload Section */}
-        {!file && (
+        {files.length === 0 && (
           <div className="glass-card p-8 mb-6">
             <div {...getRootProps()} className="upload-zone">
               <input {...getInputProps()} />
@@ -187,10 +382,11 @@ export default function DataQualityAnnotator() {
                   <Upload className="w-8 h-8 text-white" />
                 </div>
                 <h3 className="text-xl font-semibold text-gray-800 mb-2">
-                  {isDragActive ? "Drop your file here" : "Upload CSV/JSON"}
+                  {isDragActive ? "Drop your files here" : "Upload CSV/TSV/JSON/Excel/Parquet"}
                 </h3>
                 <p className="text-gray-600 text-center max-w-md">
-                  Drag and drop your dataset file here, or click to browse. Maximum file size: 4MB
+                  Drag and drop your dataset file here, or click to browse. Drop several related tables at once to check
+                  the references between them. Maximum file size: 4MB
                 </p>
               </div>
             </div>
@@ -211,12 +407,148 @@ export default function DataQualityAnnotator() {
         {/* Analysis Results */}
         {analysis && (
           <>
+            {workbook && files.length > 0 && (
+              <SheetPicker
+                workbook={workbook}
+                activeSheet={analysis.sheetName || ""}
+                onActiveSheetChange={(sheetName) =>
+                  setAnalysis(workbook.sheets.find((sheet) => sheet.sheetName === sheetName) || null)
+                }
+                selectedSheets={selectedSheets}
+                onSelectedSheetsChange={setSelectedSheets}
+                onReanalyze={() => analyzeFiles(files, currentSettings())}
+                disabled={loading}
+              />
+            )}
+
+            {tableSet && (
+              <TableSetView
+                tableSet={tableSet}
+                activeTable={analysis.tableName || ""}
+                onActiveTableChange={selectTable}
+              />
+            )}
+
             {/* Summary Card */}
             <div className="glass-card p-6 mb-6">
               <h2 className="text-lg font-semibold text-gray-800 mb-3">Dataset Summary</h2>
               <p className="text-gray-700 leading-relaxed">{analysis.summary}</p>
+              {analysis.detection && files.length > 0 && (
+                <ParseOptionsPanel
+                  detection={analysis.detection}
+                  options={parseOptions}
+                  onChange={setParseOptions}
+                  onReanalyze={() => analyzeFiles(files, currentSettings())}
+                  disabled={loading}
+                />
+              )}
+              {files.length > 0 && (
+                <KeyPicker
+                  analysis={analysis}
+                  primaryKey={primaryKey}
+                  onPrimaryKeyChange={setPrimaryKey}
+                  onApply={() => analyzeFiles(files, currentSettings())}
+                  disabled={loading}
+                />
+              )}
+              {files.length > 0 && (
+                <NearDuplicateSettings
+                  analysis={analysis}
+                  threshold={similarityThreshold}
+                  onThresholdChange={setSimilarityThreshold}
+                  blockingKeys={blockingKeys}
+                  onBlockingKeysChange={setBlockingKeys}
+                  onApply={() => analyzeFiles(files, currentSettings())}
+                  disabled={loading}
+                />
+              )}
+              {files.length > 0 && (
+                <SentinelSettings
+                  analysis={analysis}
+                  sentinels={sentinels}
+                  onSentinelsChange={setSentinels}
+                  onApply={() => analyzeFiles(files, currentSettings())}
+                  disabled={loading}
+                />
+              )}
+              {files.length > 0 && (
+                <OutlierSettings
+                  analysis={analysis}
+                  settings={outlierSettings}
+                  onChange={setOutlierSettings}
+                  onApply={() => analyzeFiles(files, currentSettings())}
+                  disabled={loading}
+                />
+              )}
+              {files.length > 0 && (
+                <QualityConfigDialog
+                  analysis={analysis}
+                  config={qualityConfig}
+                  onSave={(config) => {
+                    setQualityConfig(config)
+                    analyzeFiles(files, { ...currentSettings(), quality: config })
+                  }}
+                  disabled={loading}
+                />
+              )}
+              {files.length > 0 && (
+                <RulesSettings
+                  rules={rules}
+                  onRulesChange={setRules}
+                  onApply={() => analyzeFiles(files, currentSettings())}
+                  disabled={loading}
+                />
+              )}
+              {files.length > 0 && (
+                <ContractSettings
+                  contract={contract}
+                  onContractChange={setContract}
+                  onApply={() => analyzeFiles(files, currentSettings())}
+                  disabled={loading}
+                />
+              )}
+              {analysis.schema && <SchemaSummary schema={analysis.schema} />}
             </div>
 
+            {(analysis.grid || analysis.profiles) && (
+              <div className="glass-card p-6">
+                <Tabs defaultValue={analysis.grid ? "data" : "profiles"}>
+                  <TabsList className="mb-4">
+                    {analysis.grid && <TabsTrigger value="data">Data</TabsTrigger>}
+                    {analysis.profiles && <TabsTrigger value="profiles">Column profiles</TabsTrigger>}
+                    {analysis.missingness && <TabsTrigger value="missingness">Missingness</TabsTrigger>}
+                    {analysis.correlations && <TabsTrigger value="correlations">Correlations</TabsTrigger>}
+                    {analysis.scores && <TabsTrigger value="scores">Scores</TabsTrigger>}
+                  </TabsList>
+                  {analysis.grid && (
+                    <TabsContent value="data">
+                      <DataGridPreview analysis={analysis} grid={analysis.grid} loadPage={loadGridPage} />
+                    </TabsContent>
+                  )}
+                  {analysis.profiles && (
+                    <TabsContent value="profiles">
+                      <ColumnProfiles profiles={analysis.profiles} />
+                    </TabsContent>
+                  )}
+                  {analysis.missingness && (
+                    <TabsContent value="missingness">
+                      <MissingnessView missingness={analysis.missingness} totalRows={analysis.totalRows} />
+                    </TabsContent>
+                  )}
+                  {analysis.correlations && (
+                    <TabsContent value="correlations">
+                      <CorrelationView correlations={analysis.correlations} />
+                    </TabsContent>
+                  )}
+                  {analysis.scores && (
+                    <TabsContent value="scores">
+                      <ScoreBreakdown scores={analysis.scores} />
+                    </TabsContent>
+                  )}
+                </Tabs>
+              </div>
+            )}
+
             {/* Filter Tabs */}
             <div className="glass-card p-6">
               <Tabs value={activeTab} onValueChange={setActiveTab}>
@@ -256,6 +588,13 @@ export default function DataQualityAnnotator() {
                             <p className="text-gray-700 mb-2">{issue.description}</p>
                             <p className="text-sm text-gray-600 mb-3">{issue.explanation}</p>
 
+                            {issue.clusters && issue.clusters.length > 0 && (
+                              <DuplicateClusters clusters={issue.clusters} />
+                            )}
+                            {issue.variantGroups && issue.variantGroups.length > 0 && (
+                              <VariantGroups groups={issue.variantGroups} />
+                            )}
+
                             {issue.recommendation && (
                               <div className="bg-blue-50 p-3 rounded-lg mb-3">
                                 <p className="text-sm text-blue-800">{issue.recommendation}</p>
@@ -266,17 +605,34 @@ export default function DataQualityAnnotator() {
                               <div className="text-sm text-gray-600">
                                 {issue.count.toLocaleString()} issues ({issue.percentage.toFixed(1)}%)
                               </div>
+                              {issue.rowReferences && issue.rowReferences.rows.length > 0 && (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => toggleIssueRows(issue)}
+                                  className="ml-auto"
+                                >
+                                  <Rows3 className="w-4 h-4 mr-2" />
+                                  {expandedIssues.has(issueKey(issue)) ? "Hide rows" : "View rows"}
+                                </Button>
+                              )}
                               <Button
                                 size="sm"
                                 variant="outline"
                                 onClick={() => generateFix(issue)}
-                                className="ml-auto"
+                                className={issue.rowReferences?.rows.length ? undefined : "ml-auto"}
                               >
                                 <Code className="w-4 h-4 mr-2" />
                                 Generate Fix
                               </Button>
                             </div>
 
+                            {expandedIssues.has(issueKey(issue)) && analysis.grid && (
+                              <div className="mt-3">
+                                <IssueRows issue={issue} grid={analysis.grid} />
+                              </div>
+                            )}
+
                             {issue.fixCode && (
                               <div className="mt-3 p-3 bg-gray-900 rounded-lg">
                                 <pre className="text-sm text-green-400 overflow-x-auto">
@@ -0,0 +1,135 @@
+"use client"
+
+import { useState } from "react"
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts"
+import { BarChart3 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { ColumnProfile, HistogramBin } from "@/lib/types"
+
+const chartConfig = {
+  count: { label: "Rows", color: "hsl(221, 83%, 53%)" },
+} satisfies ChartConfig
+
+function formatNumber(value: number): string {
+  return Number(value.toPrecision(4)).toLocaleString("en-US")
+}
+
+// Unit-width integer bins and constant columns read as single values, the rest as ranges
+function binLabel({ start, end }: HistogramBin): string {
+  if (start === end) return formatNumber(start)
+  if (end - start === 1 && Number.isInteger(start)) return String(start)
+  return `${formatNumber(start)}–${formatNumber(end)}`
+}
+
+function CountChart({ title, data }: { title: string; data: { label: string; count: number }[] }) {
+  if (data.length === 0) return null
+  return (
+    <div>
+      <div className="text-sm font-medium text-gray-800 mb-2">{title}</div>
+      <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+        <BarChart data={data} margin={{ left: 0, right: 8, bottom: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="label" tickLine={false} axisLine={false} interval="preserveStartEnd" minTickGap={16} />
+          <YAxis tickLine={false} axisLine={false} width={40} allowDecimals={false} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Bar dataKey="count" fill="var(--color-count)" radius={2} />
+        </BarChart>
+      </ChartContainer>
+    </div>
+  )
+}
+
+function withShare(part: number, whole: number): string {
+  return `${part.toLocaleString()} (${((part / Math.max(whole, 1)) * 100).toFixed(1)}%)`
+}
+
+function Statistic({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg border border-gray-200 px-3 py-2">
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="text-sm font-semibold text-gray-800 truncate">{value}</div>
+    </div>
+  )
+}
+
+export function ColumnProfiles({ profiles }: { profiles: ColumnProfile[] }) {
+  const [selected, setSelected] = useState(profiles[0]?.column)
+  const profile = profiles.find(({ column }) => column === selected) || profiles[0]
+  if (!profile) return null
+
+  const statistics: [string, string][] = [
+    ["Count", profile.count.toLocaleString()],
+    ["Distinct", withShare(profile.distinct, profile.count)],
+    ["Missing", withShare(profile.missing, profile.count + profile.missing)],
+    ...(profile.stats
+      ? ([
+          ["Min", formatNumber(profile.stats.min)],
+          ["Max", formatNumber(profile.stats.max)],
+          ["Mean", formatNumber(profile.stats.mean)],
+          ["Median", formatNumber(profile.stats.median)],
+          ["Std. dev.", formatNumber(profile.stats.std)],
+        ] as [string, string][])
+      : []),
+    ["Length", `${profile.lengths.min}–${profile.lengths.max} (mean ${formatNumber(profile.lengths.mean)})`],
+  ]
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <BarChart3 className="w-4 h-4 text-gray-700" />
+        <span className="text-sm font-medium text-gray-800">Column profile</span>
+        <Select value={profile.column} onValueChange={setSelected}>
+          <SelectTrigger className="h-8 w-56 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {profiles.map(({ column, type }) => (
+              <SelectItem key={column} value={column}>
+                {column} <span className="text-gray-500">({type})</span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2 mb-4">
+        {statistics.map(([label, value]) => (
+          <Statistic key={label} label={label} value={value} />
+        ))}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {profile.histogram ? (
+          <CountChart
+            title="Distribution"
+            data={profile.histogram.map((bin) => ({ label: binLabel(bin), count: bin.count }))}
+          />
+        ) : (
+          <CountChart
+            title={`Top ${profile.topValues.length} values`}
+            data={profile.topValues.map(({ value, count }) => ({ label: value, count }))}
+          />
+        )}
+        <CountChart
+          title="String length"
+          data={profile.lengths.histogram.map((bin) => ({ label: binLabel(bin), count: bin.count }))}
+        />
+      </div>
+
+      {profile.histogram && profile.topValues.length > 0 && (
+        <div className="mt-4">
+          <div className="text-sm font-medium text-gray-800 mb-2">Top values</div>
+          <div className="flex flex-wrap gap-2">
+            {profile.topValues.map(({ value, count }) => (
+              <Badge key={value} variant="secondary" className="font-mono text-xs">
+                {value} <span className="ml-1 text-gray-500">×{count.toLocaleString()}</span>
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
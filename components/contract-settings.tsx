@@ -0,0 +1,128 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState, type ChangeEvent } from "react"
+import { FileCheck, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { parseContract } from "@/lib/contract"
+
+// Saved contracts live in the browser, keyed by the name they were saved under
+const STORAGE_KEY = "data-quality-annotator:contracts"
+
+function loadSaved(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}")
+  } catch {
+    return {}
+  }
+}
+
+interface ContractSettingsProps {
+  // JSON Schema text as pasted or loaded
+  contract: string
+  onContractChange: (contract: string) => void
+  onApply: () => void
+  disabled?: boolean
+}
+
+export function ContractSettings({ contract, onContractChange, onApply, disabled }: ContractSettingsProps) {
+  const fileInput = useRef<HTMLInputElement>(null)
+  const [saved, setSaved] = useState<Record<string, string>>({})
+  const [name, setName] = useState("")
+  const parsed = useMemo(() => (contract.trim() ? parseContract(contract) : {}), [contract])
+
+  useEffect(() => setSaved(loadSaved()), [])
+
+  const updateSaved = (next: Record<string, string>) => {
+    setSaved(next)
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+  }
+
+  const loadFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file) {
+      onContractChange(await file.text())
+      setName(file.name.replace(/\.(schema\.)?json$/i, ""))
+    }
+    event.target.value = ""
+  }
+
+  const pick = (picked: string) => {
+    setName(picked)
+    onContractChange(saved[picked])
+  }
+
+  const remove = () => updateSaved(Object.fromEntries(Object.entries(saved).filter(([key]) => key !== name)))
+
+  const names = Object.keys(saved).sort()
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <div className="flex items-center gap-2 mb-2">
+        <FileCheck className="w-4 h-4 text-gray-700" />
+        <span className="text-sm font-medium text-gray-800">Data contract</span>
+        <span className="text-sm text-gray-600">JSON Schema every record is validated against</span>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <Select value={name in saved ? name : ""} onValueChange={pick} disabled={names.length === 0}>
+          <SelectTrigger className="h-8 w-56 text-sm">
+            <SelectValue placeholder={names.length > 0 ? "Saved contracts" : "No saved contracts"} />
+          </SelectTrigger>
+          <SelectContent>
+            {names.map((entry) => (
+              <SelectItem key={entry} value={entry}>
+                {entry}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <input ref={fileInput} type="file" accept=".json" className="hidden" onChange={loadFile} />
+        <Button size="sm" variant="ghost" onClick={() => fileInput.current?.click()}>
+          <Upload className="w-4 h-4 mr-1" />
+          Load file
+        </Button>
+      </div>
+      <Textarea
+        value={contract}
+        onChange={(event) => onContractChange(event.target.value)}
+        placeholder='{ "type": "object", "required": ["id"], "properties": { "id": { "type": "integer" } } }'
+        spellCheck={false}
+        className="font-mono text-xs min-h-32"
+      />
+      {parsed.error && <p className="mt-2 text-xs text-red-600">{parsed.error}</p>}
+      <div className="flex flex-wrap items-center gap-2 mt-2">
+        <Input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="Name, e.g. orders-v2"
+          className="h-8 max-w-xs"
+        />
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => updateSaved({ ...saved, [name.trim()]: contract })}
+          disabled={!name.trim() || !parsed.schema}
+        >
+          Save
+        </Button>
+        {name in saved && (
+          <Button size="sm" variant="ghost" onClick={remove}>
+            Delete
+          </Button>
+        )}
+        <div className="ml-auto flex gap-2">
+          {contract && (
+            <Button size="sm" variant="ghost" onClick={() => onContractChange("")} disabled={disabled}>
+              Clear
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={onApply} disabled={disabled || !!parsed.error}>
+            Re-check
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+"use client"
+
+import { useState } from "react"
+import { ChartNetwork } from "lucide-react"
+import { Heatmap } from "@/components/heatmap"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { CorrelationSummary } from "@/lib/types"
+
+type Measure = "pearson" | "spearman" | "cramersV"
+
+const MEASURES: Record<Measure, { label: string; symbol: string; note: string }> = {
+  pearson: { label: "Pearson (numeric)", symbol: "r", note: "Linear correlation between numeric columns." },
+  spearman: {
+    label: "Spearman (numeric)",
+    symbol: "ρ",
+    note: "Rank correlation between numeric columns; catches monotonic relationships that aren't linear.",
+  },
+  cramersV: {
+    label: "Cramér's V (categorical)",
+    symbol: "V",
+    note: "Association between categorical columns, from 0 (independent) to 1 (one determines the other).",
+  },
+}
+
+export function CorrelationView({ correlations }: { correlations: CorrelationSummary }) {
+  const [measure, setMeasure] = useState<Measure>(correlations.numericColumns.length > 1 ? "pearson" : "cramersV")
+  const labels = measure === "cramersV" ? correlations.categoricalColumns : correlations.numericColumns
+  const values = correlations[measure]
+  const { symbol, note } = MEASURES[measure]
+
+  const describeCell = (row: number, column: number) => {
+    const value = values[row][column]
+    return `${labels[row]} & ${labels[column]}: ${symbol} = ${value === null ? "n/a" : value.toFixed(3)}`
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-1">
+        <ChartNetwork className="w-4 h-4 text-gray-700" />
+        <span className="text-sm font-medium text-gray-800">Correlations</span>
+        <Select value={measure} onValueChange={(value) => setMeasure(value as Measure)}>
+          <SelectTrigger className="h-8 w-56 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(MEASURES) as Measure[]).map((key) => (
+              <SelectItem key={key} value={key}>
+                {MEASURES[key].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-gray-600 mb-3">{note} Hover a cell for the exact value.</p>
+      {labels.length > 1 ? (
+        <Heatmap labels={labels} values={values} describe={describeCell} />
+      ) : (
+        <p className="text-sm text-gray-500">
+          Needs at least two {measure === "cramersV" ? "categorical" : "numeric"} columns.
+        </p>
+      )}
+    </div>
+  )
+}
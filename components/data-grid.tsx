@@ -0,0 +1,270 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Table2 } from "lucide-react"
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+import { GRID_PAGE_SIZE, issueColumns } from "@/lib/references"
+import { cn } from "@/lib/utils"
+import type { AnalysisResult, DataGrid, DataIssue } from "@/lib/types"
+
+const ROW_HEIGHT = 32
+const VIEWPORT_HEIGHT = 480
+// Rows rendered above and below the visible window so fast scrolling doesn't flash blank space
+const OVERSCAN = 10
+
+const SEVERITY_RANK: Record<DataIssue["severity"], number> = { Critical: 3, Warning: 2, Info: 1 }
+
+const SEVERITY_CELL_CLASSES: Record<DataIssue["severity"], string> = {
+  Critical: "bg-red-100 text-red-900",
+  Warning: "bg-amber-100 text-amber-900",
+  Info: "bg-green-50 text-green-900",
+}
+
+// First position in an ascending list whose value is at least `target`
+function lowerBound(sorted: number[], target: number): number {
+  let low = 0
+  let high = sorted.length
+  while (low < high) {
+    const middle = (low + high) >> 1
+    if (sorted[middle] < target) low = middle + 1
+    else high = middle
+  }
+  return low
+}
+
+// Issues touching each cell of the rows in [first, last], keyed by "row:column index"
+function cellIssues(grid: DataGrid, issues: DataIssue[], first: number, last: number): Map<string, DataIssue[]> {
+  const cells = new Map<string, DataIssue[]>()
+  issues.forEach((issue, issueIndex) => {
+    const rows = grid.issueRows[issueIndex] || []
+    const columnIndices = issueColumns(issue, grid.columns).map((column) => grid.columns.indexOf(column))
+    for (let i = lowerBound(rows, first); i < rows.length && rows[i] <= last; i++) {
+      columnIndices.forEach((columnIndex) => {
+        const key = `${rows[i]}:${columnIndex}`
+        cells.set(key, [...(cells.get(key) || []), issue])
+      })
+    }
+  })
+  return cells
+}
+
+function worstSeverity(issues: DataIssue[]): DataIssue["severity"] {
+  return issues.map((issue) => issue.severity).sort((a, b) => SEVERITY_RANK[b] - SEVERITY_RANK[a])[0]
+}
+
+// Page links around the current page, with gaps shown as ellipses
+function pageWindow(page: number, pageCount: number): (number | "gap")[] {
+  const pages = new Set([0, pageCount - 1, page - 1, page, page + 1].filter((p) => p >= 0 && p < pageCount))
+  const sorted = Array.from(pages).sort((a, b) => a - b)
+  return sorted.flatMap((p, i) => (i > 0 && p - sorted[i - 1] > 1 ? ["gap" as const, p] : [p]))
+}
+
+interface DataGridPreviewProps {
+  analysis: AnalysisResult
+  // The page that came with the analysis
+  grid: DataGrid
+  loadPage: (offset: number) => Promise<DataGrid>
+}
+
+/**
+ * Scrollable preview of the parsed dataset. Rows are paged, fetching pages beyond the first on demand, and only the
+ * visible slice of a page is rendered; cells involved in an issue are shaded by its severity with the details on hover.
+ */
+export function DataGridPreview({ analysis, grid, loadPage }: DataGridPreviewProps) {
+  const [loadedPage, setLoadedPage] = useState<DataGrid | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [scrollTop, setScrollTop] = useState(0)
+  const viewport = useRef<HTMLDivElement>(null)
+  // Only the last page asked for is shown when several requests are in flight
+  const requestedOffset = useRef(grid.offset)
+
+  // A re-check brings a new first page and may shrink the dataset, so earlier pages no longer apply
+  useEffect(() => {
+    setLoadedPage(null)
+    setLoading(false)
+    requestedOffset.current = grid.offset
+  }, [grid])
+
+  const shown = loadedPage ?? grid
+  const pageCount = Math.max(1, Math.ceil(grid.totalRows / GRID_PAGE_SIZE))
+  const page = Math.floor(shown.offset / GRID_PAGE_SIZE)
+  const pageStart = shown.offset
+  const pageRows = shown.rows.length
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN)
+  const last = Math.min(pageRows, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN)
+
+  const cells = useMemo(
+    () => cellIssues(shown, analysis.issues, pageStart + 1, pageStart + pageRows),
+    [shown, analysis.issues, pageStart, pageRows],
+  )
+  const types = useMemo(
+    () => new Map((analysis.columnTypes || []).map(({ column, type }) => [column, type])),
+    [analysis.columnTypes],
+  )
+
+  const showPage = (next: DataGrid | null) => {
+    setLoadedPage(next)
+    setScrollTop(0)
+    if (viewport.current) viewport.current.scrollTop = 0
+  }
+
+  const goToPage = async (next: number) => {
+    if (next < 0 || next >= pageCount) return
+    const offset = next * GRID_PAGE_SIZE
+    requestedOffset.current = offset
+    if (offset === grid.offset) {
+      setLoading(false)
+      showPage(null)
+      return
+    }
+    setLoading(true)
+    try {
+      const loaded = await loadPage(offset)
+      if (requestedOffset.current === offset) showPage(loaded)
+    } catch (error) {
+      console.error("Failed to load rows:", error)
+    } finally {
+      if (requestedOffset.current === offset) setLoading(false)
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-3">
+        <Table2 className="w-4 h-4 text-gray-700" />
+        <span className="text-sm font-medium text-gray-800">Data preview</span>
+        <span className="text-sm text-gray-600">
+          rows {(pageStart + 1).toLocaleString()}–{(pageStart + pageRows).toLocaleString()} of{" "}
+          {grid.totalRows.toLocaleString()}
+        </span>
+        {loading && <span className="text-sm text-gray-500">Loading…</span>}
+        <div className="ml-auto flex items-center gap-3 text-xs text-gray-600">
+          {(Object.keys(SEVERITY_CELL_CLASSES) as DataIssue["severity"][]).map((severity) => (
+            <span key={severity} className="flex items-center gap-1">
+              <span className={cn("inline-block w-3 h-3 rounded-sm", SEVERITY_CELL_CLASSES[severity])} />
+              {severity}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div
+        ref={viewport}
+        className="overflow-auto rounded-lg border border-gray-200"
+        style={{ height: VIEWPORT_HEIGHT }}
+        onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+      >
+        <table className="w-full text-sm border-separate border-spacing-0">
+          <thead className="sticky top-0 z-10 bg-white">
+            <tr>
+              <th className="px-3 py-1 text-left text-xs font-medium text-gray-500 border-b border-gray-200">Row</th>
+              {grid.columns.map((column) => (
+                <th key={column} className="px-3 py-1 text-left border-b border-gray-200 whitespace-nowrap">
+                  <div className="font-medium text-gray-800">{column}</div>
+                  <div className="text-xs font-normal text-gray-500">{types.get(column) || "unknown"}</div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {first > 0 && <tr style={{ height: first * ROW_HEIGHT }} />}
+            {shown.rows.slice(first, last).map((row, offset) => {
+              const rowNumber = pageStart + first + offset + 1
+              return (
+                <tr key={rowNumber} style={{ height: ROW_HEIGHT }}>
+                  <td className="px-3 text-xs text-gray-500 border-b border-gray-100">{rowNumber}</td>
+                  {row.map((value, columnIndex) => {
+                    const issues = cells.get(`${rowNumber}:${columnIndex}`)
+                    const cellClass = "px-3 font-mono text-xs whitespace-nowrap border-b border-gray-100"
+                    if (!issues) {
+                      return (
+                        <td key={columnIndex} className={cellClass}>
+                          {value}
+                        </td>
+                      )
+                    }
+                    return (
+                      <HoverCard key={columnIndex} openDelay={200}>
+                        <HoverCardTrigger asChild>
+                          <td className={cn(cellClass, "cursor-help", SEVERITY_CELL_CLASSES[worstSeverity(issues)])}>
+                            {value}
+                          </td>
+                        </HoverCardTrigger>
+                        <HoverCardContent className="w-80 space-y-2">
+                          {issues.map((issue, i) => (
+                            <div key={i}>
+                              <div className="text-sm font-medium text-gray-800">
+                                {issue.type} <span className="text-xs font-normal text-gray-500">({issue.severity})</span>
+                              </div>
+                              <p className="text-xs text-gray-600">{issue.description}</p>
+                            </div>
+                          ))}
+                        </HoverCardContent>
+                      </HoverCard>
+                    )
+                  })}
+                </tr>
+              )
+            })}
+            {last < pageRows && <tr style={{ height: (pageRows - last) * ROW_HEIGHT }} />}
+          </tbody>
+        </table>
+      </div>
+
+      {pageCount > 1 && (
+        <Pagination className="mt-3">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                onClick={(event) => {
+                  event.preventDefault()
+                  goToPage(page - 1)
+                }}
+              />
+            </PaginationItem>
+            {pageWindow(page, pageCount).map((p, i) =>
+              p === "gap" ? (
+                <PaginationItem key={`gap-${i}`}>
+                  <PaginationEllipsis />
+                </PaginationItem>
+              ) : (
+                <PaginationItem key={p}>
+                  <PaginationLink
+                    href="#"
+                    isActive={p === page}
+                    onClick={(event) => {
+                      event.preventDefault()
+                      goToPage(p)
+                    }}
+                  >
+                    {p + 1}
+                  </PaginationLink>
+                </PaginationItem>
+              ),
+            )}
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                onClick={(event) => {
+                  event.preventDefault()
+                  goToPage(page + 1)
+                }}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </div>
+  )
+}
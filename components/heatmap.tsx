@@ -0,0 +1,53 @@
+"use client"
+
+interface HeatmapProps {
+  labels: string[]
+  // Square matrix of values in [-1, 1]; null cells are left blank
+  values: (number | null)[][]
+  describe: (row: number, column: number) => string
+}
+
+// Red for positive, blue for negative, with opacity following the magnitude
+function cellColor(value: number): string {
+  const alpha = Math.min(1, Math.abs(value)).toFixed(2)
+  return value >= 0 ? `rgba(239, 68, 68, ${alpha})` : `rgba(59, 130, 246, ${alpha})`
+}
+
+export function Heatmap({ labels, values, describe }: HeatmapProps) {
+  // Values stop fitting in the cells once the matrix gets wide; the hover text still has them
+  const showValues = labels.length <= 12
+
+  return (
+    <div className="overflow-auto">
+      <div
+        className="inline-grid gap-px text-xs"
+        style={{ gridTemplateColumns: `minmax(6rem, auto) repeat(${labels.length}, 2.5rem)` }}
+      >
+        <div />
+        {labels.map((label) => (
+          <div key={label} className="h-24 flex items-end justify-center pb-1">
+            <span className="[writing-mode:vertical-rl] rotate-180 truncate text-gray-600">{label}</span>
+          </div>
+        ))}
+        {labels.map((label, row) => (
+          <div key={label} className="contents">
+            <div className="pr-2 flex items-center justify-end truncate text-gray-600">{label}</div>
+            {labels.map((_, column) => {
+              const value = values[row][column]
+              return (
+                <div
+                  key={column}
+                  title={describe(row, column)}
+                  className="h-10 flex items-center justify-center rounded-sm bg-gray-50 text-gray-900"
+                  style={value === null ? undefined : { backgroundColor: cellColor(value) }}
+                >
+                  {showValues && value !== null && value.toFixed(2)}
+                </div>
+              )
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
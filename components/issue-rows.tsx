@@ -0,0 +1,73 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { issueColumns } from "@/lib/references"
+import { cn } from "@/lib/utils"
+import type { DataGrid, DataIssue } from "@/lib/types"
+
+interface IssueRowsProps {
+  issue: DataIssue
+  grid: DataGrid
+}
+
+export function IssueRows({ issue, grid }: IssueRowsProps) {
+  const references = issue.rowReferences
+  if (!references || references.rows.length === 0) return null
+
+  const rows = references.rows.filter((rowNumber) => grid.referencedRows[rowNumber])
+  const { columns } = grid
+  const highlighted = issueColumns(issue, columns)
+
+  return (
+    <div className="mb-3 rounded-lg border border-gray-200">
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 text-xs text-gray-600 border-b border-gray-200">
+        <span>
+          Showing {rows.length.toLocaleString()} of {references.total.toLocaleString()} affected rows
+        </span>
+        {issue.examples && issue.examples.length > 0 && (
+          <>
+            <span className="ml-2">Examples:</span>
+            {issue.examples.map((example) => (
+              <Badge key={example} variant="secondary" className="font-mono text-xs">
+                {example}
+              </Badge>
+            ))}
+          </>
+        )}
+      </div>
+      <div className="max-h-80 overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="h-8">Row</TableHead>
+              {columns.map((column) => (
+                <TableHead key={column} className={cn("h-8", highlighted.includes(column) && "text-red-700")}>
+                  {column}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((rowNumber) => (
+              <TableRow key={rowNumber}>
+                <TableCell className="py-1 text-xs text-gray-500">{rowNumber}</TableCell>
+                {columns.map((column, columnIndex) => (
+                  <TableCell
+                    key={column}
+                    className={cn(
+                      "py-1 font-mono text-xs whitespace-pre",
+                      highlighted.includes(column) && "bg-red-50 text-red-800 font-semibold",
+                    )}
+                  >
+                    {grid.referencedRows[rowNumber][columnIndex]}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
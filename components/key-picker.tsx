@@ -0,0 +1,77 @@
+"use client"
+
+import { KeyRound } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import type { AnalysisResult } from "@/lib/types"
+
+interface KeyPickerProps {
+  analysis: AnalysisResult
+  primaryKey: string[]
+  onPrimaryKeyChange: (columns: string[]) => void
+  onApply: () => void
+  disabled?: boolean
+}
+
+export function KeyPicker({ analysis, primaryKey, onPrimaryKeyChange, onApply, disabled }: KeyPickerProps) {
+  const columns = analysis.columnTypes?.map((c) => c.column) || []
+  const candidateKeys = analysis.candidateKeys || []
+
+  const toggleColumn = (column: string) => {
+    onPrimaryKeyChange(
+      primaryKey.includes(column) ? primaryKey.filter((c) => c !== column) : [...primaryKey, column],
+    )
+  }
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <div className="flex items-center gap-2 mb-2">
+        <KeyRound className="w-4 h-4 text-gray-700" />
+        <span className="text-sm font-medium text-gray-800">Primary key</span>
+        <span className="text-sm text-gray-600">
+          {analysis.primaryKey?.length ? `checking ${analysis.primaryKey.join(" + ")}` : "not declared"}
+        </span>
+      </div>
+
+      {candidateKeys.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-2">
+          <span className="text-xs text-gray-600">Suggested:</span>
+          {candidateKeys.map((key) => (
+            <Button
+              key={key.columns.join("+")}
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-xs"
+              onClick={() => onPrimaryKeyChange(key.columns)}
+            >
+              {key.columns.join(" + ")} ({(key.uniqueness * 100).toFixed(1)}% unique)
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {columns.map((column) => (
+          <Badge
+            key={column}
+            variant={primaryKey.includes(column) ? "default" : "outline"}
+            className="cursor-pointer"
+            onClick={() => toggleColumn(column)}
+          >
+            {column}
+          </Badge>
+        ))}
+        <div className="ml-auto flex gap-2">
+          {primaryKey.length > 0 && (
+            <Button size="sm" variant="ghost" onClick={() => onPrimaryKeyChange([])} disabled={disabled}>
+              Clear
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={onApply} disabled={disabled}>
+            Check key
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
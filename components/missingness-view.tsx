@@ -0,0 +1,79 @@
+"use client"
+
+import { Grid3x3 } from "lucide-react"
+import { Heatmap } from "@/components/heatmap"
+import { cn } from "@/lib/utils"
+import type { MissingnessSummary } from "@/lib/types"
+
+interface MissingnessViewProps {
+  missingness: MissingnessSummary
+  totalRows: number
+}
+
+export function MissingnessView({ missingness, totalRows }: MissingnessViewProps) {
+  const { columns, missing, coMissing, correlation, patterns, completeRows } = missingness
+
+  const describeCell = (row: number, column: number) => {
+    if (row === column) return `${columns[row]}: ${missing[row].toLocaleString()} rows missing`
+    const both = coMissing[row][column].toLocaleString()
+    return `${columns[row]} & ${columns[column]}: ${both} rows missing both (r = ${correlation[row][column].toFixed(2)})`
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="flex items-center gap-2 mb-1">
+          <Grid3x3 className="w-4 h-4 text-gray-700" />
+          <span className="text-sm font-medium text-gray-800">Nullity correlation</span>
+        </div>
+        <p className="text-xs text-gray-600 mb-3">
+          1 means two columns are always missing in the same rows, -1 that one is missing exactly when the other is
+          present. Hover a cell for the number of rows missing both.
+        </p>
+        <Heatmap labels={columns} values={correlation} describe={describeCell} />
+      </div>
+
+      <div>
+        <div className="text-sm font-medium text-gray-800 mb-1">Most common missing-value patterns</div>
+        <p className="text-xs text-gray-600 mb-3">
+          {completeRows.toLocaleString()} of {totalRows.toLocaleString()} rows have none of these columns missing.
+        </p>
+        <div className="overflow-auto">
+          <table className="text-xs">
+            <thead>
+              <tr>
+                {columns.map((column) => (
+                  <th key={column} className="h-24 w-6 align-bottom font-normal text-gray-600">
+                    <span className="[writing-mode:vertical-rl] rotate-180 truncate">{column}</span>
+                  </th>
+                ))}
+                <th className="pl-3 text-left align-bottom font-medium text-gray-600">Rows</th>
+              </tr>
+            </thead>
+            <tbody>
+              {patterns.map((pattern) => (
+                <tr key={pattern.columns.join("\u0000")}>
+                  {columns.map((column) => (
+                    <td key={column} className="p-0.5">
+                      <div
+                        title={column}
+                        className={cn(
+                          "h-4 w-5 rounded-sm",
+                          pattern.columns.includes(column) ? "bg-gray-700" : "bg-gray-100",
+                        )}
+                      />
+                    </td>
+                  ))}
+                  <td className="pl-3 text-gray-700">
+                    {pattern.count.toLocaleString()}{" "}
+                    <span className="text-gray-500">({((pattern.count / totalRows) * 100).toFixed(1)}%)</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
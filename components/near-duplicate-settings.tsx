@@ -0,0 +1,112 @@
+"use client"
+
+import { Users } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { AnalysisResult, DuplicateCluster } from "@/lib/types"
+
+interface NearDuplicateSettingsProps {
+  analysis: AnalysisResult
+  threshold: number
+  onThresholdChange: (threshold: number) => void
+  blockingKeys: string[]
+  onBlockingKeysChange: (columns: string[]) => void
+  onApply: () => void
+  disabled?: boolean
+}
+
+export function NearDuplicateSettings({
+  analysis,
+  threshold,
+  onThresholdChange,
+  blockingKeys,
+  onBlockingKeysChange,
+  onApply,
+  disabled,
+}: NearDuplicateSettingsProps) {
+  const columns = analysis.columnTypes?.map((c) => c.column) || []
+
+  const toggleColumn = (column: string) => {
+    onBlockingKeysChange(
+      blockingKeys.includes(column) ? blockingKeys.filter((c) => c !== column) : [...blockingKeys, column],
+    )
+  }
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <div className="flex items-center gap-2 mb-2">
+        <Users className="w-4 h-4 text-gray-700" />
+        <span className="text-sm font-medium text-gray-800">Near-duplicate matching</span>
+        <span className="text-sm text-gray-600">similarity ≥ {Math.round(threshold * 100)}%</span>
+      </div>
+      <Slider
+        min={50}
+        max={100}
+        step={1}
+        value={[Math.round(threshold * 100)]}
+        onValueChange={([value]) => onThresholdChange(value / 100)}
+        className="mb-3 max-w-md"
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-gray-600">Block on:</span>
+        {columns.map((column) => (
+          <Badge
+            key={column}
+            variant={blockingKeys.includes(column) ? "default" : "outline"}
+            className="cursor-pointer"
+            onClick={() => toggleColumn(column)}
+          >
+            {column}
+          </Badge>
+        ))}
+        {blockingKeys.length === 0 && <span className="text-xs text-gray-500">each free-text column (default)</span>}
+        <Button size="sm" variant="outline" onClick={onApply} disabled={disabled} className="ml-auto">
+          Re-run matching
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export function DuplicateClusters({ clusters }: { clusters: DuplicateCluster[] }) {
+  const columns = Object.keys(clusters[0]?.sample[0] || {})
+
+  return (
+    <div className="mb-3 space-y-3">
+      {clusters.slice(0, 5).map((cluster, index) => (
+        <div key={index} className="rounded-lg border border-gray-200">
+          <div className="px-3 py-2 text-xs text-gray-600 border-b border-gray-200">
+            Rows {cluster.rows.slice(0, 10).join(", ")}
+            {cluster.rows.length > 10 && ` and ${cluster.rows.length - 10} more`} •{" "}
+            {(cluster.similarity * 100).toFixed(0)}% similar
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {columns.map((column) => (
+                  <TableHead key={column} className="h-8">
+                    {column}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {cluster.sample.map((row, rowIndex) => (
+                <TableRow key={rowIndex}>
+                  {columns.map((column) => (
+                    <TableCell key={column} className="py-1 font-mono text-xs whitespace-pre">
+                      {row[column]}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ))}
+      {clusters.length > 5 && <p className="text-xs text-gray-500">{clusters.length - 5} more clusters not shown</p>}
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+"use client"
+
+import { TrendingUp } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { DEFAULT_IQR_MULTIPLIER, OUTLIER_METHOD_LABELS, OUTLIER_METHODS, type OutlierOptions } from "@/lib/outliers"
+import { isNumericType } from "@/lib/infer"
+import type { AnalysisResult, OutlierMethod } from "@/lib/types"
+
+export type OutlierSettingsValue = Required<OutlierOptions>
+
+export const DEFAULT_OUTLIER_SETTINGS: OutlierSettingsValue = {
+  method: "auto",
+  columnMethods: {},
+  iqrMultiplier: DEFAULT_IQR_MULTIPLIER,
+  multivariate: true,
+}
+
+export function appendOutlierSettings(formData: FormData, settings: OutlierSettingsValue) {
+  formData.append("outlierMethod", settings.method)
+  formData.append("iqrMultiplier", String(settings.iqrMultiplier))
+  formData.append("multivariateOutliers", String(settings.multivariate))
+  if (Object.keys(settings.columnMethods).length > 0) {
+    formData.append("columnOutlierMethods", JSON.stringify(settings.columnMethods))
+  }
+}
+
+interface OutlierSettingsProps {
+  analysis: AnalysisResult
+  settings: OutlierSettingsValue
+  onChange: (settings: OutlierSettingsValue) => void
+  onApply: () => void
+  disabled?: boolean
+}
+
+export function OutlierSettings({ analysis, settings, onChange, onApply, disabled }: OutlierSettingsProps) {
+  const numericColumns =
+    analysis.columnTypes?.filter(({ type }) => isNumericType(type)).map(({ column }) => column) || []
+  // The method each column was actually checked with, when it had outliers
+  const usedMethods = Object.fromEntries(
+    analysis.issues.filter((issue) => issue.type === "Outliers").map((issue) => [issue.column, issue.outlierMethod]),
+  )
+
+  const setColumnMethod = (column: string, value: string) => {
+    const rest = Object.fromEntries(Object.entries(settings.columnMethods).filter(([name]) => name !== column))
+    onChange({
+      ...settings,
+      columnMethods: value === "default" ? rest : { ...rest, [column]: value as OutlierMethod },
+    })
+  }
+
+  if (numericColumns.length === 0) return null
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <div className="flex items-center gap-2 mb-3">
+        <TrendingUp className="w-4 h-4 text-gray-700" />
+        <span className="text-sm font-medium text-gray-800">Outlier detection</span>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end mb-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-600">Method</Label>
+          <Select
+            value={settings.method}
+            onValueChange={(value) => onChange({ ...settings, method: value as OutlierSettingsValue["method"] })}
+          >
+            <SelectTrigger className="h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Auto (by distribution)</SelectItem>
+              {OUTLIER_METHODS.map((method) => (
+                <SelectItem key={method} value={method}>
+                  {OUTLIER_METHOD_LABELS[method]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="iqr-multiplier" className="text-xs text-gray-600">
+            IQR multiplier
+          </Label>
+          <Input
+            id="iqr-multiplier"
+            type="number"
+            min={0.5}
+            step={0.5}
+            value={settings.iqrMultiplier}
+            onChange={(event) =>
+              onChange({ ...settings, iqrMultiplier: Number(event.target.value) || DEFAULT_IQR_MULTIPLIER })
+            }
+            className="h-8 text-sm"
+          />
+        </div>
+        <div className="flex items-center gap-2 h-8">
+          <Switch
+            id="multivariate-outliers"
+            checked={settings.multivariate}
+            onCheckedChange={(checked) => onChange({ ...settings, multivariate: checked })}
+          />
+          <Label htmlFor="multivariate-outliers" className="text-sm">
+            Multivariate (Mahalanobis)
+          </Label>
+        </div>
+        <Button size="sm" variant="outline" onClick={onApply} disabled={disabled}>
+          Re-check
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {numericColumns.map((column) => (
+          <div key={column} className="space-y-1">
+            <Label className="text-xs text-gray-600">
+              {column}
+              {usedMethods[column] && ` (used ${OUTLIER_METHOD_LABELS[usedMethods[column] as OutlierMethod]})`}
+            </Label>
+            <Select
+              value={settings.columnMethods[column] || "default"}
+              onValueChange={(value) => setColumnMethod(column, value)}
+            >
+              <SelectTrigger className="h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">Same as above</SelectItem>
+                {OUTLIER_METHODS.map((method) => (
+                  <SelectItem key={method} value={method}>
+                    {OUTLIER_METHOD_LABELS[method]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+"use client"
+
+import { RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { ParseDetection } from "@/lib/types"
+
+export interface ParseOptions {
+  delimiter: string
+  quoteChar: string
+  hasHeader: string
+  encoding: string
+}
+
+export const AUTO_PARSE_OPTIONS: ParseOptions = {
+  delimiter: "auto",
+  quoteChar: "auto",
+  hasHeader: "auto",
+  encoding: "auto",
+}
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ",": "Comma",
+  ";": "Semicolon",
+  "\t": "Tab",
+  "|": "Pipe",
+}
+
+const QUOTE_LABELS: Record<string, string> = {
+  '"': "Double quote",
+  "'": "Single quote",
+}
+
+const ENCODINGS = ["utf-8", "windows-1252", "iso-8859-1", "utf-16le"]
+
+export function describeDetection(detection: ParseDetection): string {
+  const parts = []
+  if (detection.delimiter) parts.push(`${DELIMITER_LABELS[detection.delimiter] || detection.delimiter}-delimited`)
+  if (detection.quoteChar) parts.push(QUOTE_LABELS[detection.quoteChar] || detection.quoteChar)
+  if (detection.hasHeader !== undefined) parts.push(detection.hasHeader ? "header row" : "no header row")
+  parts.push(`${detection.encoding.toUpperCase()}${detection.bom ? " (BOM)" : ""}`)
+  return parts.join(" • ")
+}
+
+export function appendParseOptions(formData: FormData, options: ParseOptions, prefix = "") {
+  Object.entries(options).forEach(([key, value]) => {
+    if (value !== "auto") formData.append(`${prefix}${key}`, value)
+  })
+}
+
+interface ParseOptionsPanelProps {
+  detection: ParseDetection
+  options: ParseOptions
+  onChange: (options: ParseOptions) => void
+  onReanalyze: () => void
+  disabled?: boolean
+}
+
+export function ParseOptionsPanel({ detection, options, onChange, onReanalyze, disabled }: ParseOptionsPanelProps) {
+  const isDelimited = detection.delimiter !== undefined
+
+  const renderSelect = (key: keyof ParseOptions, label: string, items: Record<string, string>) => (
+    <div className="space-y-1">
+      <Label className="text-xs text-gray-600">{label}</Label>
+      <Select value={options[key]} onValueChange={(value) => onChange({ ...options, [key]: value })}>
+        <SelectTrigger className="h-8 text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="auto">Auto-detect</SelectItem>
+          {Object.entries(items).map(([value, itemLabel]) => (
+            <SelectItem key={value} value={value}>
+              {itemLabel}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <p className="text-sm text-gray-600 mb-3">
+        Detected: {describeDetection(detection)}
+        {detection.overridden.length > 0 && ` (overridden: ${detection.overridden.join(", ")})`}
+        {detection.bom && options.encoding !== "auto" && (
+          <span className="block text-amber-700">
+            The file starts with a byte-order mark, which sets its encoding; the selected encoding was not applied.
+          </span>
+        )}
+      </p>
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+        {isDelimited && renderSelect("delimiter", "Delimiter", DELIMITER_LABELS)}
+        {isDelimited && renderSelect("quoteChar", "Quote", QUOTE_LABELS)}
+        {isDelimited && renderSelect("hasHeader", "Header row", { true: "Yes", false: "No" })}
+        {renderSelect("encoding", "Encoding", Object.fromEntries(ENCODINGS.map((e) => [e, e.toUpperCase()])))}
+        <Button size="sm" variant="outline" onClick={onReanalyze} disabled={disabled}>
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Re-analyze
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,324 @@
+"use client"
+
+import { useState } from "react"
+import { useFieldArray, useForm, type FieldPath } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { Plus, SlidersHorizontal, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  COLUMN_CRITICALITIES,
+  DEFAULT_SEVERITY_THRESHOLDS,
+  severityThresholdsSchema,
+  type QualityConfig,
+  type SeverityThresholds,
+} from "@/lib/quality-config"
+import { QUALITY_DIMENSION_LABELS, QUALITY_DIMENSIONS } from "@/lib/scoring"
+import type { AnalysisResult } from "@/lib/types"
+
+const CHECKS = Object.keys(DEFAULT_SEVERITY_THRESHOLDS)
+
+const formSchema = z.object({
+  checks: z.array(z.object({ type: z.string(), limits: severityThresholdsSchema })),
+  overrides: z.array(
+    z.object({
+      column: z.string().min(1, "Pick a column"),
+      type: z.string().min(1, "Pick a check"),
+      limits: severityThresholdsSchema,
+    }),
+  ),
+  // An array rather than a record: flattened column names contain dots, which form field paths would split on
+  criticality: z.array(z.object({ column: z.string(), level: z.enum(COLUMN_CRITICALITIES) })),
+  weights: z.record(z.number({ invalid_type_error: "Enter a weight" }).min(0)),
+})
+
+type FormValues = z.infer<typeof formSchema>
+
+function sameThresholds(a: SeverityThresholds, b: SeverityThresholds): boolean {
+  return a.warning === b.warning && a.critical === b.critical
+}
+
+function toFormValues(config: QualityConfig, columns: string[]): FormValues {
+  return {
+    checks: CHECKS.map((type) => ({ type, limits: config.thresholds?.[type] ?? DEFAULT_SEVERITY_THRESHOLDS[type] })),
+    overrides: Object.entries(config.columnThresholds || {}).flatMap(([column, byType]) =>
+      Object.entries(byType).map(([type, limits]) => ({ column, type, limits })),
+    ),
+    criticality: columns.map((column) => ({ column, level: config.criticality?.[column] ?? "normal" })),
+    weights: Object.fromEntries(QUALITY_DIMENSIONS.map((dimension) => [dimension, config.weights?.[dimension] ?? 1])),
+  }
+}
+
+// Only what differs from the defaults is kept, so untouched checks keep their own grading. Criticality set for
+// columns that aren't in the current file is carried over from `previous`.
+function toConfig(values: FormValues, previous: QualityConfig): QualityConfig {
+  const thresholds = Object.fromEntries(
+    values.checks
+      .filter(({ type, limits }) => !sameThresholds(limits, DEFAULT_SEVERITY_THRESHOLDS[type]))
+      .map(({ type, limits }) => [type, limits]),
+  )
+  const columnThresholds: NonNullable<QualityConfig["columnThresholds"]> = {}
+  values.overrides.forEach(({ column, type, limits }) => {
+    columnThresholds[column] = { ...columnThresholds[column], [type]: limits }
+  })
+  const shown = new Set(values.criticality.map(({ column }) => column))
+  const criticality = {
+    ...Object.fromEntries(Object.entries(previous.criticality || {}).filter(([column]) => !shown.has(column))),
+    ...Object.fromEntries(
+      values.criticality.filter(({ level }) => level !== "normal").map(({ column, level }) => [column, level]),
+    ),
+  }
+  const weights = Object.fromEntries(Object.entries(values.weights).filter(([, weight]) => weight !== 1))
+
+  return {
+    ...(Object.keys(thresholds).length > 0 && { thresholds }),
+    ...(Object.keys(columnThresholds).length > 0 && { columnThresholds }),
+    ...(Object.keys(criticality).length > 0 && { criticality }),
+    ...(Object.keys(weights).length > 0 && { weights }),
+  }
+}
+
+interface NumberFieldProps {
+  name: FieldPath<FormValues>
+  label?: string
+  placeholder?: string
+}
+
+function NumberField({ name, label, placeholder }: NumberFieldProps) {
+  return (
+    <FormField
+      name={name}
+      render={({ field }) => (
+        <FormItem className="space-y-1">
+          {label && <FormLabel className="text-xs text-gray-600">{label}</FormLabel>}
+          <FormControl>
+            <Input
+              type="number"
+              min={0}
+              step="any"
+              className="h-8"
+              placeholder={placeholder}
+              value={field.value ?? ""}
+              onChange={(event) => field.onChange(event.target.value === "" ? undefined : Number(event.target.value))}
+            />
+          </FormControl>
+          <FormMessage className="text-xs" />
+        </FormItem>
+      )}
+    />
+  )
+}
+
+interface QualityConfigDialogProps {
+  analysis: AnalysisResult
+  config: QualityConfig
+  onSave: (config: QualityConfig) => void
+  disabled?: boolean
+}
+
+export function QualityConfigDialog({ analysis, config, onSave, disabled }: QualityConfigDialogProps) {
+  const [open, setOpen] = useState(false)
+  const columns = (analysis.columnTypes || []).map(({ column }) => column)
+  const form = useForm<FormValues>({ resolver: zodResolver(formSchema), defaultValues: toFormValues(config, columns) })
+  const overrides = useFieldArray({ control: form.control, name: "overrides" })
+
+  // Start from the saved config every time the dialog opens
+  const changeOpen = (next: boolean) => {
+    if (next) form.reset(toFormValues(config, columns))
+    setOpen(next)
+  }
+
+  const save = (values: FormValues) => {
+    onSave(toConfig(values, config))
+    setOpen(false)
+  }
+
+  const configured = Object.keys(config).length > 0
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <div className="flex flex-wrap items-center gap-2">
+        <SlidersHorizontal className="w-4 h-4 text-gray-700" />
+        <span className="text-sm font-medium text-gray-800">Quality settings</span>
+        <span className="text-sm text-gray-600">
+          {configured ? "custom thresholds, criticality or weights in use" : "default thresholds and weights"}
+        </span>
+        <Dialog open={open} onOpenChange={changeOpen}>
+          <DialogTrigger asChild>
+            <Button size="sm" variant="outline" className="ml-auto" disabled={disabled}>
+              Edit
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Quality settings</DialogTitle>
+              <DialogDescription>
+                Severity cut-offs are the percentage of rows an issue affects. Column criticality raises or lowers the
+                severity of issues on a column and, with the dimension weights, shapes the quality score.
+              </DialogDescription>
+            </DialogHeader>
+
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(save)} className="space-y-6">
+                <section>
+                  <h3 className="text-sm font-medium text-gray-800 mb-2">Severity thresholds</h3>
+                  <div className="grid grid-cols-[1fr_8rem_8rem] gap-x-3 gap-y-2 items-start">
+                    <span className="text-xs text-gray-500">Check</span>
+                    <span className="text-xs text-gray-500">Warning above %</span>
+                    <span className="text-xs text-gray-500">Critical above %</span>
+                    {CHECKS.map((type, index) => (
+                      <div key={type} className="contents">
+                        <span className="text-sm text-gray-700 pt-1.5">{type}</span>
+                        <NumberField name={`checks.${index}.limits.warning`} />
+                        <NumberField name={`checks.${index}.limits.critical`} placeholder="never" />
+                      </div>
+                    ))}
+                  </div>
+                </section>
+
+                <section>
+                  <h3 className="text-sm font-medium text-gray-800 mb-2">Column overrides</h3>
+                  <div className="space-y-2">
+                    {overrides.fields.map((override, index) => (
+                      <div key={override.id} className="grid grid-cols-[1fr_1fr_6rem_6rem_auto] gap-2 items-start">
+                        <FormField
+                          name={`overrides.${index}.column`}
+                          render={({ field }) => (
+                            <FormItem className="space-y-1">
+                              <Select value={field.value} onValueChange={field.onChange}>
+                                <FormControl>
+                                  <SelectTrigger className="h-8 text-sm">
+                                    <SelectValue placeholder="Column" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {columns.map((column) => (
+                                    <SelectItem key={column} value={column}>
+                                      {column}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage className="text-xs" />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          name={`overrides.${index}.type`}
+                          render={({ field }) => (
+                            <FormItem className="space-y-1">
+                              <Select value={field.value} onValueChange={field.onChange}>
+                                <FormControl>
+                                  <SelectTrigger className="h-8 text-sm">
+                                    <SelectValue placeholder="Check" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {CHECKS.map((type) => (
+                                    <SelectItem key={type} value={type}>
+                                      {type}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage className="text-xs" />
+                            </FormItem>
+                          )}
+                        />
+                        <NumberField name={`overrides.${index}.limits.warning`} placeholder="Warning" />
+                        <NumberField name={`overrides.${index}.limits.critical`} placeholder="Critical" />
+                        <Button type="button" size="sm" variant="ghost" onClick={() => overrides.remove(index)}>
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => overrides.append({ column: "", type: "", limits: { warning: 5, critical: 20 } })}
+                    >
+                      <Plus className="w-4 h-4 mr-1" />
+                      Add override
+                    </Button>
+                  </div>
+                </section>
+
+                <section>
+                  <h3 className="text-sm font-medium text-gray-800 mb-2">Column criticality</h3>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                    {columns.map((column, index) => (
+                      <FormField
+                        key={column}
+                        name={`criticality.${index}.level`}
+                        render={({ field }) => (
+                          <FormItem className="space-y-1">
+                            <FormLabel className="text-xs text-gray-600 truncate block">{column}</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger className="h-8 text-sm">
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {COLUMN_CRITICALITIES.map((level) => (
+                                  <SelectItem key={level} value={level}>
+                                    {level}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                    ))}
+                  </div>
+                </section>
+
+                <section>
+                  <h3 className="text-sm font-medium text-gray-800 mb-2">Score weights</h3>
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                    {QUALITY_DIMENSIONS.map((dimension) => (
+                      <NumberField
+                        key={dimension}
+                        name={`weights.${dimension}`}
+                        label={QUALITY_DIMENSION_LABELS[dimension]}
+                      />
+                    ))}
+                  </div>
+                </section>
+
+                <DialogFooter className="gap-2">
+                  <Button type="button" variant="ghost" onClick={() => form.reset(toFormValues({}, columns))}>
+                    Reset to defaults
+                  </Button>
+                  <DialogClose asChild>
+                    <Button type="button" variant="outline">
+                      Cancel
+                    </Button>
+                  </DialogClose>
+                  <Button type="submit" disabled={disabled}>
+                    Save and re-check
+                  </Button>
+                </DialogFooter>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </div>
+  )
+}
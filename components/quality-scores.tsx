@@ -0,0 +1,113 @@
+"use client"
+
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  PolarAngleAxis,
+  PolarGrid,
+  Radar,
+  RadarChart,
+  XAxis,
+  YAxis,
+  type TooltipProps,
+} from "recharts"
+import { Gauge } from "lucide-react"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { QUALITY_DIMENSION_LABELS, QUALITY_DIMENSIONS } from "@/lib/scoring"
+import type { ColumnScore, QualityScores } from "@/lib/types"
+
+const chartConfig = {
+  score: { label: "Score", color: "hsl(262, 83%, 58%)" },
+} satisfies ChartConfig
+
+const COLUMN_BAR_HEIGHT = 24
+
+// Dimensions with no applicable check (null) are left off rather than drawn as perfect
+function dimensionData(scores: QualityScores) {
+  return QUALITY_DIMENSIONS.filter((dimension) => scores.dimensions[dimension] !== null).map((dimension) => ({
+    dimension: QUALITY_DIMENSION_LABELS[dimension],
+    score: scores.dimensions[dimension]!,
+  }))
+}
+
+// Compact radar shown beside the overall score in the header
+export function ScoreRadar({ scores }: { scores: QualityScores }) {
+  return (
+    <ChartContainer config={chartConfig} className="aspect-square h-28">
+      <RadarChart data={dimensionData(scores)} outerRadius="70%">
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <PolarGrid />
+        <PolarAngleAxis dataKey="dimension" tick={{ fontSize: 9 }} />
+        <Radar dataKey="score" fill="var(--color-score)" fillOpacity={0.5} stroke="var(--color-score)" />
+      </RadarChart>
+    </ChartContainer>
+  )
+}
+
+function ColumnTooltip({ active, payload }: TooltipProps<number, string>) {
+  const score = payload?.[0]?.payload as ColumnScore | undefined
+  if (!active || !score) return null
+
+  return (
+    <div className="grid min-w-[10rem] gap-1 rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs">
+      <div className="flex justify-between gap-3 font-medium">
+        <span>{score.column}</span>
+        <span className="font-mono">{score.score}</span>
+      </div>
+      {QUALITY_DIMENSIONS.map((dimension) => (
+        <div key={dimension} className="flex justify-between gap-3">
+          <span className="text-muted-foreground">{QUALITY_DIMENSION_LABELS[dimension]}</span>
+          <span className="font-mono">{score.dimensions[dimension]}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function ScoreBreakdown({ scores }: { scores: QualityScores }) {
+  const columns = [...scores.columns].sort((a, b) => a.score - b.score)
+
+  return (
+    <div className="grid md:grid-cols-2 gap-6">
+      <div>
+        <div className="flex items-center gap-2 mb-1">
+          <Gauge className="w-4 h-4 text-gray-700" />
+          <span className="text-sm font-medium text-gray-800">Quality dimensions</span>
+        </div>
+        <p className="text-xs text-gray-600 mb-3">
+          Each dimension loses the share of cells affected by its issues, averaged over columns.
+        </p>
+        <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+          <BarChart data={dimensionData(scores)} margin={{ left: 0, right: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="dimension" tickLine={false} axisLine={false} />
+            <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="score" fill="var(--color-score)" radius={2} />
+          </BarChart>
+        </ChartContainer>
+      </div>
+
+      <div>
+        <div className="text-sm font-medium text-gray-800 mb-1">Column scores</div>
+        <p className="text-xs text-gray-600 mb-3">Lowest first. Hover a bar for the column&apos;s dimension scores.</p>
+        <div className="max-h-80 overflow-auto">
+          <ChartContainer
+            config={chartConfig}
+            className="aspect-auto w-full"
+            style={{ height: Math.max(120, columns.length * COLUMN_BAR_HEIGHT + 40) }}
+          >
+            <BarChart data={columns} layout="vertical" margin={{ left: 8, right: 8 }}>
+              <CartesianGrid horizontal={false} />
+              <XAxis type="number" domain={[0, 100]} tickLine={false} axisLine={false} />
+              <YAxis type="category" dataKey="column" tickLine={false} axisLine={false} width={120} interval={0} />
+              <ChartTooltip content={<ColumnTooltip />} />
+              <Bar dataKey="score" fill="var(--color-score)" radius={2} />
+            </BarChart>
+          </ChartContainer>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+"use client"
+
+import { useMemo, useRef, type ChangeEvent } from "react"
+import { ListChecks, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { parseRules } from "@/lib/rules"
+
+const PLACEHOLDER = `rules:
+  - id: age-range
+    check: between
+    column: age
+    min: 0
+    max: 120
+  - id: end-after-start
+    check: compare
+    column: end_date
+    op: ">="
+    other: start_date
+  - id: line-total
+    check: formula
+    column: total
+    expression: quantity * unit_price
+    tolerance: 0.01
+  - id: country-for-orders
+    check: not_null
+    column: country
+    when: { column: order_total, op: ">", value: 0 }`
+
+interface RulesSettingsProps {
+  // YAML or JSON, as written
+  rules: string
+  onRulesChange: (rules: string) => void
+  onApply: () => void
+  disabled?: boolean
+}
+
+export function RulesSettings({ rules, onRulesChange, onApply, disabled }: RulesSettingsProps) {
+  const fileInput = useRef<HTMLInputElement>(null)
+  const parsed = useMemo(() => parseRules(rules), [rules])
+
+  const loadFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file) onRulesChange(await file.text())
+    event.target.value = ""
+  }
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <div className="flex items-center gap-2 mb-2">
+        <ListChecks className="w-4 h-4 text-gray-700" />
+        <span className="text-sm font-medium text-gray-800">Rules</span>
+        <span className="text-sm text-gray-600">
+          YAML or JSON; checks are not_null, between, in, unique, compare, matches and formula, each optionally with a
+          `when`
+        </span>
+      </div>
+      <Textarea
+        value={rules}
+        onChange={(event) => onRulesChange(event.target.value)}
+        placeholder={PLACEHOLDER}
+        spellCheck={false}
+        className="font-mono text-xs min-h-40"
+      />
+      {parsed.errors.length > 0 && (
+        <ul className="mt-2 space-y-0.5 text-xs text-red-600">
+          {parsed.errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+      <div className="flex flex-wrap items-center gap-2 mt-2">
+        <input ref={fileInput} type="file" accept=".yaml,.yml,.json" className="hidden" onChange={loadFile} />
+        <Button size="sm" variant="ghost" onClick={() => fileInput.current?.click()}>
+          <Upload className="w-4 h-4 mr-1" />
+          Load file
+        </Button>
+        {parsed.rules.length > 0 && (
+          <span className="text-xs text-gray-500">
+            {parsed.rules.length} rule{parsed.rules.length === 1 ? "" : "s"}
+          </span>
+        )}
+        <div className="ml-auto flex gap-2">
+          {rules && (
+            <Button size="sm" variant="ghost" onClick={() => onRulesChange("")} disabled={disabled}>
+              Clear
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={onApply} disabled={disabled || parsed.errors.length > 0}>
+            Re-check
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
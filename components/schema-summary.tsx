@@ -0,0 +1,46 @@
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { ColumnSchema, SchemaInfo } from "@/lib/types"
+
+function formatLogicalType(column: ColumnSchema): string {
+  if (!column.logicalType) return "—"
+  if (column.logicalType === "DECIMAL" && column.precision !== undefined) {
+    return `DECIMAL(${column.precision}, ${column.scale ?? 0})`
+  }
+  return column.logicalType
+}
+
+export function SchemaSummary({ schema }: { schema: SchemaInfo }) {
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-sm text-gray-600">
+        <Badge variant="outline">{schema.format}</Badge>
+        <span>{schema.numRows.toLocaleString()} rows</span>
+        {schema.rowGroups !== undefined && <span>• {schema.rowGroups} row groups</span>}
+        {schema.createdBy && <span>• written by {schema.createdBy}</span>}
+      </div>
+      <div className="max-h-64 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Column</TableHead>
+              <TableHead>Physical type</TableHead>
+              <TableHead>Logical type</TableHead>
+              <TableHead>Nullable</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {schema.columns.map((column) => (
+              <TableRow key={column.name}>
+                <TableCell className="font-medium">{column.name}</TableCell>
+                <TableCell className="font-mono text-xs">{column.type}</TableCell>
+                <TableCell className="font-mono text-xs">{formatLogicalType(column)}</TableCell>
+                <TableCell>{column.nullable ? "Yes" : "No"}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
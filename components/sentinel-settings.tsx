@@ -0,0 +1,72 @@
+"use client"
+
+import { useState } from "react"
+import { EyeOff, X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import type { AnalysisResult } from "@/lib/types"
+
+interface SentinelSettingsProps {
+  analysis: AnalysisResult
+  // undefined means the server's default list
+  sentinels: string[] | undefined
+  onSentinelsChange: (sentinels: string[] | undefined) => void
+  onApply: () => void
+  disabled?: boolean
+}
+
+export function SentinelSettings({ analysis, sentinels, onSentinelsChange, onApply, disabled }: SentinelSettingsProps) {
+  const [draft, setDraft] = useState("")
+  const current = sentinels ?? analysis.sentinels ?? []
+
+  const addSentinel = () => {
+    const value = draft.trim()
+    if (value && !current.includes(value)) onSentinelsChange([...current, value])
+    setDraft("")
+  }
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <div className="flex items-center gap-2 mb-2">
+        <EyeOff className="w-4 h-4 text-gray-700" />
+        <span className="text-sm font-medium text-gray-800">Placeholder values</span>
+        <span className="text-sm text-gray-600">treated as disguised missing values</span>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        {current.map((sentinel) => (
+          <Badge key={sentinel} variant="secondary" className="gap-1 font-mono">
+            {sentinel}
+            <X
+              className="w-3 h-3 cursor-pointer"
+              onClick={() => onSentinelsChange(current.filter((value) => value !== sentinel))}
+            />
+          </Badge>
+        ))}
+        {current.length === 0 && <span className="text-xs text-gray-500">none</span>}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onKeyDown={(event) => event.key === "Enter" && addSentinel()}
+          placeholder="Add a placeholder, e.g. 0 or -1"
+          className="h-8 max-w-xs"
+        />
+        <Button size="sm" variant="ghost" onClick={addSentinel} disabled={!draft.trim()}>
+          Add
+        </Button>
+        <div className="ml-auto flex gap-2">
+          {sentinels && (
+            <Button size="sm" variant="ghost" onClick={() => onSentinelsChange(undefined)} disabled={disabled}>
+              Reset
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={onApply} disabled={disabled}>
+            Re-check
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
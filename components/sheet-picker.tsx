@@ -0,0 +1,78 @@
+"use client"
+
+import { FileSpreadsheet, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import type { WorkbookAnalysis } from "@/lib/types"
+
+interface SheetPickerProps {
+  workbook: WorkbookAnalysis
+  activeSheet: string
+  onActiveSheetChange: (sheetName: string) => void
+  selectedSheets: string[]
+  onSelectedSheetsChange: (sheetNames: string[]) => void
+  onReanalyze: () => void
+  disabled?: boolean
+}
+
+export function SheetPicker({
+  workbook,
+  activeSheet,
+  onActiveSheetChange,
+  selectedSheets,
+  onSelectedSheetsChange,
+  onReanalyze,
+  disabled,
+}: SheetPickerProps) {
+  const toggleSheet = (sheetName: string, checked: boolean) => {
+    onSelectedSheetsChange(
+      checked ? [...selectedSheets, sheetName] : selectedSheets.filter((name) => name !== sheetName),
+    )
+  }
+
+  return (
+    <div className="glass-card p-6 mb-6">
+      <div className="flex items-center gap-2 mb-3">
+        <FileSpreadsheet className="w-5 h-5 text-gray-700" />
+        <h2 className="text-lg font-semibold text-gray-800">Workbook Sheets</h2>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        {workbook.sheetNames.map((sheetName) => (
+          <div key={sheetName} className="flex items-center gap-2">
+            <Checkbox
+              id={`sheet-${sheetName}`}
+              checked={selectedSheets.includes(sheetName)}
+              onCheckedChange={(checked) => toggleSheet(sheetName, checked === true)}
+            />
+            <Label htmlFor={`sheet-${sheetName}`}>{sheetName}</Label>
+          </div>
+        ))}
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onReanalyze}
+          disabled={disabled || selectedSheets.length === 0}
+          className="ml-auto"
+        >
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Analyze selected
+        </Button>
+      </div>
+
+      {workbook.sheets.length > 1 && (
+        <Tabs value={activeSheet} onValueChange={onActiveSheetChange}>
+          <TabsList>
+            {workbook.sheets.map((sheet) => (
+              <TabsTrigger key={sheet.sheetName} value={sheet.sheetName || ""}>
+                {sheet.sheetName} ({sheet.overallScore}%)
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+"use client"
+
+import { useState } from "react"
+import { ArrowRight, Network, Rows3 } from "lucide-react"
+import { IssueRows } from "@/components/issue-rows"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { cn } from "@/lib/utils"
+import type { DataIssue, TableSetAnalysis } from "@/lib/types"
+
+const SEVERITY_STYLES: Record<DataIssue["severity"], string> = {
+  Critical: "border-red-300 text-red-700",
+  Warning: "border-amber-300 text-amber-700",
+  Info: "border-green-300 text-green-700",
+}
+
+interface TableSetViewProps {
+  tableSet: TableSetAnalysis
+  activeTable: string
+  onActiveTableChange: (tableName: string) => void
+}
+
+export function TableSetView({ tableSet, activeTable, onActiveTableChange }: TableSetViewProps) {
+  const [expanded, setExpanded] = useState<number | null>(null)
+  const { tables, relationships, issues } = tableSet
+
+  // Cross-table issues name their column as table.column; the row preview wants the bare column
+  const rowsFor = (issue: DataIssue) => {
+    const grid = tables.find((table) => table.tableName === issue.table)?.grid
+    const column = issue.table ? issue.column.slice(issue.table.length + 1) : issue.column
+    return grid && <IssueRows issue={{ ...issue, column }} grid={grid} />
+  }
+
+  return (
+    <div className="glass-card p-6 mb-6">
+      <div className="flex items-center gap-2 mb-3">
+        <Network className="w-5 h-5 text-gray-700" />
+        <h2 className="text-lg font-semibold text-gray-800">Related Tables</h2>
+      </div>
+
+      <Tabs value={activeTable} onValueChange={onActiveTableChange} className="mb-4">
+        <TabsList>
+          {tables.map((table) => (
+            <TabsTrigger key={table.tableName} value={table.tableName || ""}>
+              {table.tableName} ({table.overallScore}%)
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <div className="text-sm font-medium text-gray-800 mb-1">Inferred foreign keys</div>
+      {relationships.length > 0 ? (
+        <div className="rounded-lg border border-gray-200 mb-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="h-8">Reference</TableHead>
+                <TableHead className="h-8">Found by</TableHead>
+                <TableHead className="h-8 text-right">Coverage</TableHead>
+                <TableHead className="h-8">Cardinality</TableHead>
+                <TableHead className="h-8 text-right">Orphan rows</TableHead>
+                <TableHead className="h-8 text-right">Unused parents</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {relationships.map((link) => (
+                <TableRow key={`${link.childTable}.${link.childColumn}`}>
+                  <TableCell className="py-1 font-mono text-xs">
+                    <span className="inline-flex items-center gap-1">
+                      {link.childTable}.{link.childColumn}
+                      <ArrowRight className="w-3 h-3" />
+                      {link.parentTable}.{link.parentColumn}
+                    </span>
+                  </TableCell>
+                  <TableCell className="py-1 text-xs">{link.inferredBy === "name" ? "name" : "values only"}</TableCell>
+                  <TableCell className="py-1 text-xs text-right">{(link.coverage * 100).toFixed(1)}%</TableCell>
+                  <TableCell className="py-1 text-xs">{link.cardinality}</TableCell>
+                  <TableCell className={cn("py-1 text-xs text-right", link.orphanRows > 0 && "text-red-700")}>
+                    {link.orphanRows.toLocaleString()}
+                  </TableCell>
+                  <TableCell className="py-1 text-xs text-right">{link.unusedParents.toLocaleString()}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 mb-4">
+          No foreign keys found: no column matches another table&apos;s key by name or by its values.
+        </p>
+      )}
+
+      <div className="text-sm font-medium text-gray-800 mb-1">Cross-table issues ({issues.length})</div>
+      {issues.length === 0 && <p className="text-sm text-gray-500">Every reference resolves and every key is unique.</p>}
+      <div className="space-y-2">
+        {issues.map((issue, index) => (
+          <div key={index} className="rounded-lg border border-gray-200 p-3">
+            <div className="flex flex-wrap items-center gap-2 mb-1">
+              <span className="font-mono text-sm text-gray-800">{issue.column}</span>
+              <Badge variant="outline" className="text-xs">
+                {issue.type}
+              </Badge>
+              <Badge variant="outline" className={cn("text-xs", SEVERITY_STYLES[issue.severity])}>
+                {issue.severity}
+              </Badge>
+              {issue.rowReferences && issue.rowReferences.rows.length > 0 && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="ml-auto"
+                  onClick={() => setExpanded(expanded === index ? null : index)}
+                >
+                  <Rows3 className="w-4 h-4 mr-2" />
+                  {expanded === index ? "Hide rows" : "View rows"}
+                </Button>
+              )}
+            </div>
+            <p className="text-sm text-gray-700">{issue.description}</p>
+            <p className="text-xs text-gray-600 mb-1">{issue.explanation}</p>
+            <p className="text-xs text-blue-800">{issue.recommendation}</p>
+            {expanded === index && <div className="mt-3">{rowsFor(issue)}</div>}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+import { Badge } from "@/components/ui/badge"
+import type { VariantGroup } from "@/lib/types"
+
+export function VariantGroups({ groups }: { groups: VariantGroup[] }) {
+  return (
+    <div className="mb-3 space-y-2">
+      {groups.slice(0, 8).map((group) => (
+        <div key={group.canonical} className="flex flex-wrap items-center gap-2 text-sm">
+          <Badge variant="secondary" className="font-mono whitespace-pre">
+            {group.canonical}
+          </Badge>
+          <span className="text-gray-500">←</span>
+          {group.variants
+            .filter((variant) => variant.value !== group.canonical)
+            .map((variant) => (
+              <Badge key={variant.value} variant="outline" className="font-mono whitespace-pre">
+                {variant.value} ({variant.count})
+              </Badge>
+            ))}
+        </div>
+      ))}
+      {groups.length > 8 && <p className="text-xs text-gray-500">{groups.length - 8} more groups not shown</p>}
+    </div>
+  )
+}
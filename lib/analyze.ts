@@ -0,0 +1,167 @@
+import { categoricalIssue } from "@/lib/categorical"
+import { correlationSummary, redundantColumnIssues } from "@/lib/correlation"
+import { dateIssues } from "@/lib/dates"
+import { dependencyIssues } from "@/lib/dependencies"
+import { fullRowDuplicateIssue, primaryKeyIssues } from "@/lib/duplicates"
+import { inferColumnType, isMissingValue, mixedTypeIssue } from "@/lib/infer"
+import { missingnessIssues } from "@/lib/missingness"
+import {
+  DEFAULT_SIMILARITY_THRESHOLD,
+  findNearDuplicates,
+  nearDuplicateIssue,
+  type NearDuplicateOptions,
+} from "@/lib/near-duplicates"
+import { multivariateOutlierIssue, outlierIssue, type OutlierOptions } from "@/lib/outliers"
+import { applySeverityThresholds, type QualityConfig } from "@/lib/quality-config"
+import { exampleValues, indicesWhere, rowReferences } from "@/lib/references"
+import { ruleIssues, type QualityRule } from "@/lib/rules"
+import { sentinelIssue } from "@/lib/sentinels"
+import type { ColumnType, CorrelationSummary, DataIssue } from "@/lib/types"
+import { formatIssue } from "@/lib/validators"
+
+// Share of distinct values an identifier column needs before its repeats are reported as duplicate IDs
+const KEY_UNIQUENESS = 0.9
+
+// Rows don't always share keys, so the column list is the union across all of them
+export function columnNames(data: any[]): string[] {
+  const names = new Set<string>()
+  data.forEach((row) => Object.keys(row).forEach((key) => names.add(key)))
+  return Array.from(names)
+}
+
+export function inferColumnTypes(data: any[], columns: string[]): ColumnType[] {
+  return columns.map((column) => inferColumnType(column, data.map((row) => row[column])))
+}
+
+export interface AnalysisOptions {
+  // Declared primary key; when set, uniqueness is checked on it instead of on columns inferred as identifiers
+  primaryKey?: string[]
+  nearDuplicates?: NearDuplicateOptions
+  // Values treated as placeholders for missing data; defaults to DEFAULT_SENTINELS
+  sentinels?: string[]
+  outliers?: OutlierOptions
+  // Severity thresholds and score weights; only the configured checks are re-graded
+  quality?: QualityConfig
+  // User-defined rules, checked alongside the built-in heuristics
+  rules?: QualityRule[]
+}
+
+/**
+ * Runs every built-in check plus the user's rules. Callers that also report the correlation summary pass it in so
+ * the pairwise work isn't done twice.
+ */
+export function analyzeDataQuality(
+  data: any[],
+  columnTypes: ColumnType[],
+  options: AnalysisOptions = {},
+  correlations: CorrelationSummary = correlationSummary(data, columnTypes),
+): DataIssue[] {
+  if (!data.length) return []
+
+  const issues: DataIssue[] = []
+  const totalRows = data.length
+  const columns = columnTypes.map((c) => c.column)
+  const hasPrimaryKey = !!options.primaryKey?.length
+
+  const rowDuplicates = fullRowDuplicateIssue(data, columns)
+  if (rowDuplicates) issues.push(rowDuplicates)
+  if (hasPrimaryKey) issues.push(...primaryKeyIssues(data, options.primaryKey!, columns))
+
+  const nearDuplicates = nearDuplicateIssue(
+    findNearDuplicates(data, columnTypes, options.nearDuplicates),
+    totalRows,
+    options.nearDuplicates?.threshold ?? DEFAULT_SIMILARITY_THRESHOLD,
+  )
+  if (nearDuplicates) issues.push(nearDuplicates)
+
+  if (options.outliers?.multivariate !== false) {
+    const multivariate = multivariateOutlierIssue(data, columnTypes)
+    if (multivariate) issues.push(multivariate)
+  }
+
+  issues.push(...missingnessIssues(data, columnTypes))
+  issues.push(...redundantColumnIssues(correlations, columns.length))
+  issues.push(...dependencyIssues(data, columnTypes))
+  if (options.rules?.length) issues.push(...ruleIssues(data, options.rules, columns))
+
+  columnTypes.forEach((columnType) => {
+    const { column, type } = columnType
+    const columnValues = data.map((row) => row[column])
+
+    // Check for missing values
+    const missingRows = indicesWhere(columnValues, isMissingValue)
+    const missingCount = missingRows.length
+
+    if (missingCount > 0) {
+      const percentage = (missingCount / totalRows) * 100
+      issues.push({
+        column,
+        severity: percentage > 20 ? "Critical" : percentage > 5 ? "Warning" : "Info",
+        type: "Missing Values",
+        description: `${missingCount} missing values found`,
+        count: missingCount,
+        percentage,
+        explanation: `Missing values in ${column} column likely indicate incomplete data collection or integration issues.`,
+        recommendation:
+          percentage > 10
+            ? `Consider data imputation strategies or investigate data collection process for ${column}.`
+            : `Monitor ${column} data collection to prevent further missing values.`,
+        rowReferences: rowReferences(missingRows),
+      })
+    }
+
+    // Check for placeholders such as "N/A" or -999 that stand in for missing values
+    const disguised = sentinelIssue(columnType, columnValues, totalRows, options.sentinels)
+    if (disguised) issues.push(disguised)
+
+    // Check for values that don't match the column's inferred type
+    const mixed = mixedTypeIssue(columnType, columnValues, totalRows)
+    if (mixed) issues.push(mixed)
+
+    // Check for values that break the column's semantic format (emails, phone numbers, postal codes...)
+    const invalid = formatIssue(columnType, data, columns)
+    if (invalid) issues.push(invalid)
+
+    // Check date columns for mixed formats, impossible or implausible dates and time zone mix-ups
+    issues.push(...dateIssues(columnType, columnValues, totalRows))
+
+    // Check for categories spelled several ways
+    const variants = categoricalIssue(columnType, columnValues, totalRows)
+    if (variants) issues.push(variants)
+
+    // Check for duplicates
+    const seen = new Set<unknown>()
+    const duplicateRows = indicesWhere(columnValues, (value) => {
+      if (isMissingValue(value)) return false
+      if (seen.has(value)) return true
+      seen.add(value)
+      return false
+    })
+    const duplicateCount = duplicateRows.length
+
+    // Codes, zips and phone numbers are typed as identifiers by name but repeat by nature; only a column that is
+    // already nearly unique is meant to be a key
+    const uniqueShare = seen.size / (seen.size + duplicateCount)
+    if (duplicateCount > 0 && type === "identifier" && uniqueShare >= KEY_UNIQUENESS && !hasPrimaryKey) {
+      const percentage = (duplicateCount / totalRows) * 100
+      issues.push({
+        column,
+        severity: "Critical",
+        type: "Duplicate Values",
+        description: `${duplicateCount} duplicate values in ID column`,
+        count: duplicateCount,
+        percentage,
+        explanation: `Duplicate IDs indicate data integrity issues that can cause incorrect analysis results.`,
+        recommendation: `Implement unique constraints and data deduplication process for ${column}.`,
+        rowReferences: rowReferences(duplicateRows),
+        examples: exampleValues(duplicateRows.map((index) => columnValues[index])),
+      })
+    }
+
+    // Check for outliers in numeric columns
+    const outliers = outlierIssue(columnType, columnValues, options.outliers)
+    if (outliers) issues.push(outliers)
+  })
+
+  return applySeverityThresholds(issues, options.quality)
+}
@@ -0,0 +1,110 @@
+import { isIdentifierName, isMissingValue } from "@/lib/infer"
+import { levenshtein, normalizeText } from "@/lib/similarity"
+import { exampleValues, indicesWhere, rowReferences } from "@/lib/references"
+import { hasKnownFormat } from "@/lib/validators"
+import type { ColumnType, DataIssue, VariantGroup } from "@/lib/types"
+
+const MAX_DISTINCT_VALUES = 1000
+const MAX_GROUPS_REPORTED = 20
+
+// Folds case, whitespace and punctuation: "U.S.A." and " usa" both become "usa"
+function canonicalForm(value: string): string {
+  return normalizeText(value).replace(/ /g, "")
+}
+
+// Short values need an exact normalized match; longer ones may differ by a typo or two, but never in their numbers:
+// "SKU-1001" and "SKU-1002" are different products
+function isSpellingVariant(a: string, b: string): boolean {
+  const shortest = Math.min(a.length, b.length)
+  if (shortest < 5) return false
+  if (a.replace(/\D/g, "") !== b.replace(/\D/g, "")) return false
+  return levenshtein(a, b) <= (shortest >= 10 ? 2 : 1)
+}
+
+export function findVariantGroups(values: unknown[]): VariantGroup[] {
+  const counts = new Map<string, number>()
+  values.forEach((value) => {
+    if (isMissingValue(value)) return
+    const raw = String(value)
+    counts.set(raw, (counts.get(raw) || 0) + 1)
+  })
+  if (counts.size < 2 || counts.size > MAX_DISTINCT_VALUES) return []
+
+  // Group raw values by folded form first
+  const byForm = new Map<string, string[]>()
+  counts.forEach((_, raw) => {
+    const form = canonicalForm(raw)
+    if (!form) return
+    byForm.set(form, [...(byForm.get(form) || []), raw])
+  })
+
+  // Then merge folded forms that are one or two edits apart
+  const forms = Array.from(byForm.keys())
+  const parents = forms.map((_, index) => index)
+  const root = (index: number): number => (parents[index] === index ? index : (parents[index] = root(parents[index])))
+
+  for (let i = 0; i < forms.length; i++) {
+    for (let j = i + 1; j < forms.length; j++) {
+      if (isSpellingVariant(forms[i], forms[j])) parents[root(j)] = root(i)
+    }
+  }
+
+  const merged = new Map<number, string[]>()
+  forms.forEach((form, index) => {
+    const group = root(index)
+    merged.set(group, [...(merged.get(group) || []), ...byForm.get(form)!])
+  })
+
+  return Array.from(merged.values())
+    .filter((raws) => raws.length > 1)
+    .map((raws) => {
+      const variants = raws.map((value) => ({ value, count: counts.get(value)! })).sort((a, b) => b.count - a.count)
+      return { canonical: variants[0].value.trim(), variants }
+    })
+    .sort((a, b) => totalVariantRows(b) - totalVariantRows(a))
+}
+
+function totalVariantRows(group: VariantGroup): number {
+  return group.variants.slice(1).reduce((sum, v) => sum + v.count, 0)
+}
+
+export function categoricalIssue(columnType: ColumnType, values: unknown[], totalRows: number): DataIssue | undefined {
+  const { column, type } = columnType
+  if (type !== "categorical" && type !== "text") return undefined
+  // Codes, emails and phone numbers are identifiers; rewriting one to match its neighbour would corrupt the data
+  if (isIdentifierName(column) || hasKnownFormat(columnType, values)) return undefined
+
+  // Free text only qualifies when values repeat enough to behave like categories
+  if (type === "text") {
+    const present = values.filter((v) => !isMissingValue(v))
+    if (new Set(present).size / present.length > 0.5) return undefined
+  }
+
+  const groups = findVariantGroups(values)
+  if (groups.length === 0) return undefined
+
+  // Rows holding any variant other than the most common spelling of its group
+  const minorityValues = new Set(groups.flatMap((group) => group.variants.slice(1).map((v) => v.value)))
+  const variantRows = indicesWhere(values, (v) => !isMissingValue(v) && minorityValues.has(String(v)))
+  const affected = groups.reduce((sum, group) => sum + totalVariantRows(group), 0)
+  const percentage = (affected / totalRows) * 100
+  const [first] = groups
+  const example = `"${first.canonical}" ← ${first.variants
+    .slice(1, 4)
+    .map((v) => `"${v.value}"`)
+    .join(", ")}`
+
+  return {
+    column,
+    severity: percentage > 5 ? "Warning" : "Info",
+    type: "Inconsistent Categories",
+    description: `${groups.length} categories are written in several ways (e.g. ${example})`,
+    count: affected,
+    percentage,
+    explanation: `Variants that differ only by case, whitespace, punctuation or a typo split one category into several, which inflates cardinality and breaks group-bys on ${column}.`,
+    recommendation: `Map the variants in ${column} to a single canonical value and validate new values against a controlled list.`,
+    variantGroups: groups.slice(0, MAX_GROUPS_REPORTED),
+    rowReferences: rowReferences(variantRows),
+    examples: exampleValues(Array.from(minorityValues)),
+  }
+}
@@ -0,0 +1,188 @@
+import { DataType, tableFromIPC, util, type Decimal, type Field } from "apache-arrow"
+import { parquetMetadata, parquetReadObjects, parquetSchema, type SchemaTree } from "hyparquet"
+import { compressors } from "hyparquet-compressors"
+import { exampleValues, indicesWhere, rowReferences } from "@/lib/references"
+import type { ColumnSchema, DataIssue, SchemaInfo } from "@/lib/types"
+
+export interface ColumnarDataset {
+  rows: Record<string, string>[]
+  schema: SchemaInfo
+  issues: DataIssue[]
+}
+
+export const PARQUET_EXTENSIONS = [".parquet", ".pq"]
+export const ARROW_EXTENSIONS = [".arrow", ".feather", ".ipc"]
+
+const TEMPORAL_TYPES = ["TIMESTAMP", "DATE"]
+const EARLIEST_PLAUSIBLE = Date.UTC(1900, 0, 1)
+const LATEST_PLAUSIBLE = Date.UTC(2100, 0, 1)
+
+function stringifyValue(value: unknown): string {
+  if (value === null || value === undefined) return ""
+  if (value instanceof Date) return isNaN(value.getTime()) ? "" : value.toISOString()
+  if (typeof value === "object") {
+    return JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v))
+  }
+  return String(value)
+}
+
+function isNumericString(value: unknown): boolean {
+  return typeof value === "string" && value.trim() !== "" && !isNaN(Number(value))
+}
+
+// Checks that need the declared type, run against the typed values before they are stringified
+function schemaIssues(rows: Record<string, unknown>[], columns: ColumnSchema[]): DataIssue[] {
+  const issues: DataIssue[] = []
+  const totalRows = rows.length
+  if (totalRows === 0) return issues
+
+  columns.forEach((column) => {
+    const values = rows.map((row) => row[column.name])
+    const present = values.filter((v) => v !== null && v !== undefined)
+    const nullRows = indicesWhere(values, (v) => v === null || v === undefined)
+    const nullCount = nullRows.length
+
+    if (!column.nullable && nullCount > 0) {
+      issues.push({
+        column: column.name,
+        severity: "Critical",
+        type: "Schema Violation",
+        description: `${nullCount} nulls in a column declared non-nullable`,
+        count: nullCount,
+        percentage: (nullCount / totalRows) * 100,
+        explanation: `The schema declares ${column.name} as required, so downstream consumers will assume it is always populated.`,
+        recommendation: `Fix the writer that produced the nulls in ${column.name}, or relax the schema to nullable if they are legitimate.`,
+        rowReferences: rowReferences(nullRows),
+      })
+    }
+
+    if (column.logicalType && TEMPORAL_TYPES.includes(column.logicalType)) {
+      const implausibleRows = indicesWhere(values, (v) => {
+        if (v === null || v === undefined) return false
+        const time = v instanceof Date ? v.getTime() : new Date(v as string).getTime()
+        return time === 0 || time < EARLIEST_PLAUSIBLE || time > LATEST_PLAUSIBLE
+      })
+      const implausible = implausibleRows.length
+
+      if (implausible > 0) {
+        const percentage = (implausible / totalRows) * 100
+        issues.push({
+          column: column.name,
+          severity: percentage > 5 ? "Warning" : "Info",
+          type: "Implausible Timestamp",
+          description: `${implausible} ${column.logicalType.toLowerCase()} values fall at the Unix epoch or outside 1900–2100`,
+          count: implausible,
+          percentage,
+          explanation: `Values like 1970-01-01 or year 9999 in ${column.name} are usually defaults or unit mix-ups (seconds vs. milliseconds) rather than real dates.`,
+          recommendation: `Check how ${column.name} is populated and store unknown dates as null instead of a placeholder.`,
+          rowReferences: rowReferences(implausibleRows),
+          examples: exampleValues(implausibleRows.map((index) => stringifyValue(values[index]))),
+        })
+      }
+    }
+
+    if (column.logicalType === "STRING" && present.length > 0) {
+      const numeric = present.filter(isNumericString).length
+      if (numeric / present.length >= 0.95) {
+        issues.push({
+          column: column.name,
+          severity: "Info",
+          type: "Type Mismatch",
+          description: `Declared as STRING but ${numeric} of ${present.length} values are numeric`,
+          count: numeric,
+          percentage: (numeric / totalRows) * 100,
+          explanation: `Storing numbers as strings in ${column.name} loses ordering, compression and numeric statistics in columnar engines.`,
+          recommendation: `Cast ${column.name} to an integer or decimal type in the producing pipeline.`,
+        })
+      }
+    }
+  })
+
+  return issues
+}
+
+// Legacy converted types (UTF8, TIMESTAMP_MILLIS, ...) are mapped onto their logical type names
+function normalizeParquetType(type: string | undefined): string | undefined {
+  if (type === "UTF8") return "STRING"
+  if (type?.startsWith("TIMESTAMP_")) return "TIMESTAMP"
+  return type
+}
+
+function parquetColumn({ element, children }: SchemaTree): ColumnSchema {
+  return {
+    name: element.name,
+    type: children.length > 0 ? "GROUP" : element.type || "UNKNOWN",
+    logicalType: normalizeParquetType(element.logical_type?.type || element.converted_type),
+    nullable: element.repetition_type !== "REQUIRED",
+    precision: element.precision,
+    scale: element.scale,
+  }
+}
+
+export async function readParquet(buffer: ArrayBuffer): Promise<ColumnarDataset> {
+  const metadata = parquetMetadata(buffer)
+  const columns = parquetSchema(metadata).children.map(parquetColumn)
+  const typedRows = await parquetReadObjects({ file: buffer, metadata, compressors })
+
+  return {
+    rows: typedRows.map((row) => Object.fromEntries(columns.map((c) => [c.name, stringifyValue(row[c.name])]))),
+    schema: {
+      format: "Parquet",
+      columns,
+      numRows: Number(metadata.num_rows),
+      rowGroups: metadata.row_groups.length,
+      createdBy: metadata.created_by,
+    },
+    issues: schemaIssues(typedRows, columns),
+  }
+}
+
+function arrowColumn(field: Field): ColumnSchema {
+  const { type } = field
+  let logicalType: string | undefined
+  if (DataType.isTimestamp(type)) logicalType = "TIMESTAMP"
+  else if (DataType.isDate(type)) logicalType = "DATE"
+  else if (DataType.isDecimal(type)) logicalType = "DECIMAL"
+  else if (DataType.isUtf8(type) || DataType.isLargeUtf8(type)) logicalType = "STRING"
+  else if (DataType.isDictionary(type)) logicalType = DataType.isUtf8(type.dictionary) ? "STRING" : "DICTIONARY"
+
+  return {
+    name: field.name,
+    type: String(type),
+    logicalType,
+    nullable: field.nullable,
+    precision: DataType.isDecimal(type) ? (type as Decimal).precision : undefined,
+    scale: DataType.isDecimal(type) ? (type as Decimal).scale : undefined,
+  }
+}
+
+// Handles both the Arrow IPC stream format and the file format (Feather v2)
+export function readArrowIPC(buffer: ArrayBuffer): ColumnarDataset {
+  const table = tableFromIPC(new Uint8Array(buffer))
+  const columns = table.schema.fields.map(arrowColumn)
+  const typedRows: Record<string, unknown>[] = []
+
+  for (let i = 0; i < table.numRows; i++) {
+    const row = table.get(i)?.toJSON() || {}
+    columns.forEach((column) => {
+      const value = row[column.name]
+      if (column.logicalType === "DECIMAL" && value !== null && value !== undefined) {
+        row[column.name] = util.bigNumToNumber(value, column.scale)
+      } else if (column.logicalType && TEMPORAL_TYPES.includes(column.logicalType) && typeof value === "number") {
+        row[column.name] = new Date(value)
+      }
+    })
+    typedRows.push(row)
+  }
+
+  return {
+    rows: typedRows.map((row) => Object.fromEntries(columns.map((c) => [c.name, stringifyValue(row[c.name])]))),
+    schema: {
+      format: "Arrow IPC",
+      columns,
+      numRows: table.numRows,
+      createdBy: table.schema.metadata.get("created_by"),
+    },
+    issues: schemaIssues(typedRows, columns),
+  }
+}
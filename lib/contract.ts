@@ -0,0 +1,240 @@
+import Ajv, { type ErrorObject, type ValidateFunction } from "ajv"
+import Ajv2020 from "ajv/dist/2020"
+import addFormats from "ajv-formats"
+import { isMissingValue } from "@/lib/infer"
+import { exampleValues, rowReferences } from "@/lib/references"
+import type { DataIssue } from "@/lib/types"
+
+export type ContractSchema = Record<string, any>
+
+export interface ParsedContract {
+  schema?: ContractSchema
+  error?: string
+}
+
+// Violations whose records can't be read the way the contract promises at all
+const BREAKING_KEYWORDS = ["required", "type"]
+
+function createValidator(schema: ContractSchema, coerceTypes: boolean): ValidateFunction {
+  const options = { allErrors: true, strict: false, coerceTypes }
+  // Published schemas declare their draft; 2020-12 needs its own build, everything else runs as draft-07
+  const ajv = String(schema.$schema || "").includes("2020-12") ? new Ajv2020(options) : new Ajv(options)
+  addFormats(ajv)
+  return ajv.compile(schema)
+}
+
+/**
+ * Reads a JSON Schema and checks that it compiles, so a broken contract is reported before any data is validated.
+ */
+export function parseContract(text: string): ParsedContract {
+  let schema: unknown
+  try {
+    schema = JSON.parse(text)
+  } catch (error) {
+    return { error: `Not valid JSON: ${error instanceof Error ? error.message : String(error)}` }
+  }
+  if (schema === null || typeof schema !== "object" || Array.isArray(schema)) {
+    return { error: "A JSON Schema must be an object" }
+  }
+
+  try {
+    createValidator(schema as ContractSchema, false)
+  } catch (error) {
+    return { error: `Not a valid JSON Schema: ${error instanceof Error ? error.message : String(error)}` }
+  }
+  return { schema: schema as ContractSchema }
+}
+
+function joinPath(prefix: string, key: string): string {
+  return prefix ? `${prefix}.${key}` : key
+}
+
+function pointerSegments(pointer: string): string[] {
+  return pointer
+    .split("/")
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+}
+
+// JSON Pointers into a record become column paths the way flattening names them: /items/0/sku is items[].sku
+function columnPath(pointer: string): string {
+  return pointerSegments(pointer).reduce(
+    (path, segment) => (/^\d+$/.test(segment) ? `${path}[]` : joinPath(path, segment)),
+    "",
+  )
+}
+
+function valueAt(record: unknown, pointer: string): unknown {
+  return pointerSegments(pointer).reduce<any>((value, segment) => value?.[segment], record)
+}
+
+// `required` and `additionalProperties` are raised on the parent object but are about one of its keys
+function errorPath(error: ErrorObject): string {
+  const path = columnPath(error.instancePath)
+  if (error.keyword === "required") return joinPath(path, error.params.missingProperty)
+  if (error.keyword === "additionalProperties") return joinPath(path, error.params.additionalProperty)
+  return path
+}
+
+function errorMessage(error: ErrorObject): string {
+  // The path already names the key, which Ajv's own message for these repeats
+  if (error.keyword === "required") return "is missing"
+  if (error.keyword === "additionalProperties") return "is not allowed"
+  const message = error.message || `fails ${error.keyword}`
+  return error.keyword === "enum" ? `${message}: ${error.params.allowedValues.join(", ")}` : message
+}
+
+function resolveRef(node: any, root: ContractSchema): any {
+  if (typeof node?.$ref !== "string" || !node.$ref.startsWith("#")) return node
+  return pointerSegments(node.$ref.slice(1)).reduce<any>((value, segment) => value?.[segment], root)
+}
+
+interface ContractColumns {
+  paths: string[]
+  required: Set<string>
+}
+
+// Leaf paths the contract describes, named like flattened columns; objects without `properties` accept any keys
+function contractColumns(root: ContractSchema): ContractColumns {
+  const paths: string[] = []
+  const required = new Set<string>()
+
+  const walk = (raw: any, path: string, refs: string[]) => {
+    // Recursive schemas (a tree of categories) stop at the first repeat
+    if (typeof raw?.$ref === "string" && refs.includes(raw.$ref)) return
+    const node = resolveRef(raw, root)
+    const seen = typeof raw?.$ref === "string" ? [...refs, raw.$ref] : refs
+    if (!node || typeof node !== "object") {
+      if (path) paths.push(path)
+      return
+    }
+
+    if (node.properties && typeof node.properties === "object") {
+      const requiredKeys: string[] = Array.isArray(node.required) ? node.required : []
+      Object.entries(node.properties).forEach(([key, child]) => {
+        const childPath = joinPath(path, key)
+        if (requiredKeys.includes(key)) required.add(childPath)
+        walk(child, childPath, seen)
+      })
+      return
+    }
+
+    const items = node.items && !Array.isArray(node.items) ? node.items : undefined
+    if (node.type === "array" || items) {
+      if (items) walk(items, `${path}[]`, seen)
+      else paths.push(`${path}[]`)
+      return
+    }
+
+    if (path) paths.push(path)
+  }
+
+  walk(root, "", [])
+  return { paths, required }
+}
+
+function covers(path: string, column: string): boolean {
+  return column === path || column.startsWith(`${path}.`) || column.startsWith(`${path}[]`)
+}
+
+interface ViolationGroup {
+  path: string
+  keyword: string
+  schemaPath: string
+  message: string
+  rows: number[]
+  values: unknown[]
+}
+
+function violationIssues(records: unknown[], schema: ContractSchema, coerce: boolean): DataIssue[] {
+  const validate = createValidator(schema, coerce)
+  const groups = new Map<string, ViolationGroup>()
+
+  records.forEach((raw, index) => {
+    // Flat rows hold text, so empty cells count as absent and the rest are coerced to the declared types
+    const record = coerce
+      ? Object.fromEntries(Object.entries(raw as Record<string, unknown>).filter(([, value]) => !isMissingValue(value)))
+      : raw
+    if (validate(record)) return
+
+    validate.errors?.forEach((error) => {
+      const path = errorPath(error)
+      const key = `${path}\u0000${error.keyword}`
+      let group = groups.get(key)
+      if (!group) {
+        const { keyword, schemaPath } = error
+        group = { path, keyword, schemaPath, message: errorMessage(error), rows: [], values: [] }
+        groups.set(key, group)
+      }
+      // Every element of an array can fail the same way; the record still counts once
+      if (group.rows[group.rows.length - 1] === index) return
+      group.rows.push(index)
+      if (error.keyword !== "required") group.values.push(valueAt(raw, error.instancePath))
+    })
+  })
+
+  return Array.from(groups.values()).map(({ path, keyword, schemaPath, message, rows, values }) => {
+    const column = path || "(record)"
+    return {
+      column,
+      severity: BREAKING_KEYWORDS.includes(keyword) ? "Critical" : "Warning",
+      type: "Contract Violation",
+      description: `${rows.length} records fail \`${keyword}\` at ${schemaPath}: ${column} ${message}`,
+      count: rows.length,
+      percentage: (rows.length / records.length) * 100,
+      explanation: `The contract's \`${keyword}\` constraint on ${column} is broken, so consumers built against the published schema may reject or misread these records.`,
+      recommendation: `Fix ${column} at the source, or agree a new contract version with the producer if the data is right.`,
+      rowReferences: rowReferences(rows),
+      examples: values.length > 0 ? exampleValues(values.map((value) => JSON.stringify(value))) : undefined,
+    }
+  })
+}
+
+/**
+ * Validates every record against a JSON Schema contract, grouping violations by path and keyword, and reports the
+ * columns found in only one of the data and the contract. Sources with nested records pass them as `records` to be
+ * validated as-is; otherwise the flat rows are validated, with their text values coerced to the declared types.
+ */
+export function contractIssues(
+  data: any[],
+  columns: string[],
+  schema: ContractSchema,
+  records?: Record<string, any>[],
+): DataIssue[] {
+  const issues = violationIssues(records ?? data, schema, !records)
+  const totalRows = data.length
+  const { paths, required } = contractColumns(schema)
+
+  columns
+    .filter((column) => !paths.some((path) => covers(path, column)))
+    .forEach((column) => {
+      const filled = data.filter((row) => !isMissingValue(row[column])).length
+      issues.push({
+        column,
+        severity: "Warning",
+        type: "Column Not in Contract",
+        description: `${column} is in the data but not in the contract`,
+        count: filled,
+        percentage: (filled / totalRows) * 100,
+        explanation: "A column the contract doesn't describe usually means the producer added a field without publishing a new schema version.",
+        recommendation: `Add ${column} to the contract, or stop emitting it upstream.`,
+      })
+    })
+
+  paths
+    .filter((path) => !columns.some((column) => covers(path, column)))
+    .forEach((path) => {
+      issues.push({
+        column: path,
+        severity: required.has(path) ? "Critical" : "Warning",
+        type: "Missing Contract Column",
+        description: `${path} is in the contract but never appears in the data`,
+        count: totalRows,
+        percentage: 100,
+        explanation: `The contract promises ${path}${required.has(path) ? " as a required field" : ""}, but no record carries it, which often means it was renamed or dropped upstream.`,
+        recommendation: `Check whether ${path} was renamed in the feed, and update either the producer or the contract.`,
+      })
+    })
+
+  return issues
+}
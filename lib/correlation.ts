@@ -0,0 +1,175 @@
+import { isMissingValue, isNumericType } from "@/lib/infer"
+import type { ColumnType, CorrelationSummary, DataIssue, SemanticType } from "@/lib/types"
+
+const MAX_COLUMNS = 30
+const MAX_CATEGORIES = 50
+const MIN_PAIRS = 10
+const CATEGORICAL_TYPES: SemanticType[] = ["categorical", "boolean"]
+// Pairs at or above this strength carry next to no information beyond each other
+const REDUNDANCY_THRESHOLD = 0.98
+// Past this the relationship is exact up to floating point error, i.e. one column is computed from the other
+const DERIVED_THRESHOLD = 0.9999
+
+// Pearson correlation over the rows where both values are present; null when either side is constant
+function pearson(x: number[], y: number[]): number | null {
+  let n = 0
+  let sumX = 0
+  let sumY = 0
+  for (let i = 0; i < x.length; i++) {
+    if (isNaN(x[i]) || isNaN(y[i])) continue
+    n++
+    sumX += x[i]
+    sumY += y[i]
+  }
+  if (n < MIN_PAIRS) return null
+
+  const meanX = sumX / n
+  const meanY = sumY / n
+  let covariance = 0
+  let varianceX = 0
+  let varianceY = 0
+  for (let i = 0; i < x.length; i++) {
+    if (isNaN(x[i]) || isNaN(y[i])) continue
+    covariance += (x[i] - meanX) * (y[i] - meanY)
+    varianceX += (x[i] - meanX) ** 2
+    varianceY += (y[i] - meanY) ** 2
+  }
+  if (varianceX === 0 || varianceY === 0) return null
+  return Math.max(-1, Math.min(1, covariance / Math.sqrt(varianceX * varianceY)))
+}
+
+// Average ranks with ties sharing the mean of their positions; missing values stay NaN
+function ranks(values: number[]): number[] {
+  const order = values.map((_, index) => index).filter((index) => !isNaN(values[index]))
+  order.sort((a, b) => values[a] - values[b])
+
+  const ranked = values.map(() => NaN)
+  for (let start = 0; start < order.length; ) {
+    let end = start
+    while (end + 1 < order.length && values[order[end + 1]] === values[order[start]]) end++
+    const rank = (start + end) / 2 + 1
+    for (let i = start; i <= end; i++) ranked[order[i]] = rank
+    start = end + 1
+  }
+  return ranked
+}
+
+// Cramér's V from the contingency table of two categorical columns, over rows where both are present
+function cramersV(x: (string | undefined)[], y: (string | undefined)[]): number | null {
+  const table = new Map<string, number>()
+  const rowTotals = new Map<string, number>()
+  const columnTotals = new Map<string, number>()
+  let n = 0
+  x.forEach((a, i) => {
+    const b = y[i]
+    if (a === undefined || b === undefined) return
+    n++
+    const cell = `${a}\u0000${b}`
+    table.set(cell, (table.get(cell) || 0) + 1)
+    rowTotals.set(a, (rowTotals.get(a) || 0) + 1)
+    columnTotals.set(b, (columnTotals.get(b) || 0) + 1)
+  })
+  const dimension = Math.min(rowTotals.size, columnTotals.size) - 1
+  if (n < MIN_PAIRS || dimension < 1) return null
+
+  let chiSquare = 0
+  rowTotals.forEach((rowTotal, a) => {
+    columnTotals.forEach((columnTotal, b) => {
+      const expected = (rowTotal * columnTotal) / n
+      chiSquare += ((table.get(`${a}\u0000${b}`) || 0) - expected) ** 2 / expected
+    })
+  })
+  return Math.min(1, Math.sqrt(chiSquare / (n * dimension)))
+}
+
+function pairwise<T>(columns: T[], measure: (a: T, b: T) => number | null): (number | null)[][] {
+  const matrix = columns.map(() => columns.map((): number | null => null))
+  columns.forEach((a, i) => {
+    matrix[i][i] = 1
+    for (let j = i + 1; j < columns.length; j++) matrix[i][j] = matrix[j][i] = measure(a, columns[j])
+  })
+  return matrix
+}
+
+/**
+ * Pearson and Spearman correlation between numeric columns and Cramér's V between categorical ones. Spearman ranks
+ * each column once over all its values rather than per pair, which only differs when the pair has missing values.
+ */
+export function correlationSummary(data: Record<string, any>[], columnTypes: ColumnType[]): CorrelationSummary {
+  const numeric = columnTypes
+    .filter(({ type }) => isNumericType(type))
+    .slice(0, MAX_COLUMNS)
+    .map(({ column }) => {
+      const values = data.map((row) => (isMissingValue(row[column]) ? NaN : Number(String(row[column]).trim())))
+      return { column, values, ranks: ranks(values) }
+    })
+
+  const categorical = columnTypes
+    .filter(({ type }) => CATEGORICAL_TYPES.includes(type))
+    .map(({ column }) => ({
+      column,
+      values: data.map((row) => (isMissingValue(row[column]) ? undefined : String(row[column]))),
+    }))
+    .filter(({ values }) => new Set(values).size <= MAX_CATEGORIES + 1)
+    .slice(0, MAX_COLUMNS)
+
+  return {
+    numericColumns: numeric.map(({ column }) => column),
+    pearson: pairwise(numeric, (a, b) => pearson(a.values, b.values)),
+    spearman: pairwise(numeric, (a, b) => pearson(a.ranks, b.ranks)),
+    categoricalColumns: categorical.map(({ column }) => column),
+    cramersV: pairwise(categorical, (a, b) => cramersV(a.values, b.values)),
+  }
+}
+
+function redundantColumnIssue(first: string, second: string, description: string, totalColumns: number): DataIssue {
+  return {
+    column: `${first}, ${second}`,
+    severity: "Info",
+    type: "Redundant Column",
+    description,
+    count: 1,
+    percentage: (1 / totalColumns) * 100,
+    explanation: `${second} carries almost no information beyond ${first}. Redundant features inflate variance in linear models and hide which column actually matters, and a column derived from the target leaks it into training.`,
+    recommendation: `Keep one of ${first} and ${second}, and check that neither is computed from the prediction target before training.`,
+  }
+}
+
+function format(value: number | null): string {
+  return value === null ? "n/a" : value.toFixed(3)
+}
+
+/** Reports numeric pairs that are (almost) perfectly correlated and categorical pairs that determine each other. */
+export function redundantColumnIssues(summary: CorrelationSummary, totalColumns: number): DataIssue[] {
+  const issues: DataIssue[] = []
+  const { numericColumns, pearson, spearman, categoricalColumns, cramersV } = summary
+
+  numericColumns.forEach((first, i) => {
+    for (let j = i + 1; j < numericColumns.length; j++) {
+      const r = pearson[i][j]
+      const rho = spearman[i][j]
+      const second = numericColumns[j]
+      if (r !== null && Math.abs(r) >= DERIVED_THRESHOLD) {
+        const description = `${second} is a linear function of ${first} (Pearson r = ${format(r)})`
+        issues.push(redundantColumnIssue(first, second, description, totalColumns))
+      } else if (Math.abs(r ?? 0) >= REDUNDANCY_THRESHOLD || Math.abs(rho ?? 0) >= REDUNDANCY_THRESHOLD) {
+        const strengths = `Pearson r = ${format(r)}, Spearman ρ = ${format(rho)}`
+        const description = `${second} is almost perfectly correlated with ${first} (${strengths})`
+        issues.push(redundantColumnIssue(first, second, description, totalColumns))
+      }
+    }
+  })
+
+  categoricalColumns.forEach((first, i) => {
+    for (let j = i + 1; j < categoricalColumns.length; j++) {
+      const v = cramersV[i][j]
+      const second = categoricalColumns[j]
+      if (v === null || v < REDUNDANCY_THRESHOLD) continue
+      const relation = v >= DERIVED_THRESHOLD ? "fully determines the other" : "almost entirely determines the other"
+      const description = `One of ${first} and ${second} ${relation} (Cramér's V = ${format(v)})`
+      issues.push(redundantColumnIssue(first, second, description, totalColumns))
+    }
+  })
+
+  return issues
+}
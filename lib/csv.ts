@@ -0,0 +1,114 @@
+export interface CSVParseOptions {
+  delimiter?: string
+  quote?: string
+  hasHeader?: boolean
+}
+
+export interface CSVRecord {
+  fields: string[]
+  line: number
+}
+
+export interface MalformedRow {
+  row: number
+  line: number
+  expected: number
+  actual: number
+}
+
+export interface CSVParseResult {
+  headers: string[]
+  rows: Record<string, string>[]
+  malformedRows: MalformedRow[]
+  unterminatedQuoteLine?: number
+}
+
+// RFC 4180 tokenizer: quoted fields may contain delimiters, CRLF/LF line breaks and "" escaped quotes
+export function tokenizeCSV(
+  text: string,
+  { delimiter = ",", quote = '"' }: CSVParseOptions = {},
+): { records: CSVRecord[]; unterminatedQuoteLine?: number } {
+  const records: CSVRecord[] = []
+  let fields: string[] = []
+  let field = ""
+  let inQuotes = false
+  let line = 1
+  let recordLine = 1
+  let quoteLine = 0
+
+  const endRecord = () => {
+    fields.push(field)
+    // Blank lines are not records
+    if (fields.length > 1 || fields[0] !== "") {
+      records.push({ fields, line: recordLine })
+    }
+    fields = []
+    field = ""
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === quote) {
+        if (text[i + 1] === quote) {
+          field += quote
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        if (char === "\n") line++
+        field += char
+      }
+      continue
+    }
+
+    if (char === quote && field === "") {
+      inQuotes = true
+      quoteLine = line
+    } else if (char === delimiter) {
+      fields.push(field)
+      field = ""
+    } else if (char === "\r" || char === "\n") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      endRecord()
+      line++
+      recordLine = line
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== "" || fields.length > 0) endRecord()
+
+  return { records, unterminatedQuoteLine: inQuotes ? quoteLine : undefined }
+}
+
+export function parseCSV(text: string, options: CSVParseOptions = {}): CSVParseResult {
+  const { records, unterminatedQuoteLine } = tokenizeCSV(text, options)
+  if (records.length === 0) return { headers: [], rows: [], malformedRows: [], unterminatedQuoteLine }
+
+  const hasHeader = options.hasHeader ?? true
+  const headers = hasHeader
+    ? records[0].fields.map((h) => h.trim())
+    : records[0].fields.map((_, index) => `column_${index + 1}`)
+  const rows: Record<string, string>[] = []
+  const malformedRows: MalformedRow[] = []
+
+  for (let i = hasHeader ? 1 : 0; i < records.length; i++) {
+    const { fields, line } = records[i]
+    if (fields.length !== headers.length) {
+      malformedRows.push({ row: i + 1, line, expected: headers.length, actual: fields.length })
+      continue
+    }
+
+    const row: Record<string, string> = {}
+    headers.forEach((header, index) => {
+      row[header] = fields[index]
+    })
+    rows.push(row)
+  }
+
+  return { headers, rows, malformedRows, unterminatedQuoteLine }
+}
@@ -0,0 +1,345 @@
+import { isMissingValue } from "@/lib/infer"
+import { exampleValues, rowReferences } from "@/lib/references"
+import { range } from "@/lib/stats"
+import type { ColumnType, DataIssue } from "@/lib/types"
+
+interface ParsedDate {
+  format: string
+  year: number
+  // For day/month ambiguous formats these hold the first and second field as written
+  month: number
+  day: number
+  hour?: number
+  minute?: number
+  second?: number
+  hasTime: boolean
+  // UTC offset as written, normalized to "+hh:mm"; undefined for naive timestamps
+  offset?: string
+  // Numeric dates such as 05/01/2024 whose field order has to be decided per column
+  ambiguous?: boolean
+}
+
+type DayMonthOrder = "day-first" | "month-first"
+
+// Share of non-missing values that must parse as dates before a column is checked
+const DATE_SHARE = 0.8
+const EARLIEST_PLAUSIBLE_YEAR = 1900
+// Defaults that export tools write in place of a missing date
+const PLACEHOLDER_DATES = ["1900-01-01", "1970-01-01"]
+const MAX_EXAMPLES = 3
+// Columns that are expected to hold dates in the future
+const PLANNED_DATE_NAMES = /due|expir|deadline|until|scheduled|planned|renewal|valid_?to|(^|[_\s.-])end|[a-z]End/i
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"]
+const MONTH_NAMES = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+]
+
+const TIME = String.raw`(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*([AaPp][Mm])?\s*(Z|[+-]\d{2}:?\d{2}|UTC|GMT)?)?`
+const ISO_DATE = new RegExp(String.raw`^(\d{4})-(\d{1,2})-(\d{1,2})${TIME}$`)
+const SLASHED_ISO_DATE = new RegExp(String.raw`^(\d{4})/(\d{1,2})/(\d{1,2})${TIME}$`)
+const NUMERIC_DATE = new RegExp(String.raw`^(\d{1,2})([/.-])(\d{1,2})\2(\d{4}|\d{2})${TIME}$`)
+const MONTH_FIRST_DATE = new RegExp(String.raw`^([A-Za-z]{3,9})\.? (\d{1,2})(?:st|nd|rd|th)?,? (\d{4})${TIME}$`)
+const DAY_FIRST_DATE = new RegExp(String.raw`^(\d{1,2})([ -])([A-Za-z]{3,9})\.?,?\2(\d{4}|\d{2})${TIME}$`)
+
+function monthNumber(name: string): number | undefined {
+  const lower = name.toLowerCase()
+  const index = MONTHS.indexOf(lower.slice(0, 3))
+  if (index === -1) return undefined
+  return MONTH_NAMES[index].startsWith(lower) || lower === "sept" ? index + 1 : undefined
+}
+
+// POSIX pivot: 69-99 are the 1900s, 00-68 the 2000s
+function fullYear(year: string): number {
+  const value = Number(year)
+  return year.length === 2 ? (value >= 69 ? 1900 + value : 2000 + value) : value
+}
+
+function normalizeOffset(offset: string | undefined): string | undefined {
+  if (!offset) return undefined
+  if (/^(Z|UTC|GMT)$/i.test(offset)) return "+00:00"
+  return offset.includes(":") ? offset : `${offset.slice(0, 3)}:${offset.slice(3)}`
+}
+
+// Fills in the time-of-day fields shared by every format; the capture groups start at `first`
+function withTime(date: Omit<ParsedDate, "hasTime">, match: RegExpMatchArray, first: number): ParsedDate {
+  if (match[first] === undefined) return { ...date, hasTime: false }
+
+  let hour = Number(match[first])
+  const meridiem = match[first + 3]?.toLowerCase()
+  if (meridiem && hour >= 1 && hour <= 12) hour = (hour % 12) + (meridiem === "pm" ? 12 : 0)
+  else if (meridiem) hour = 24
+
+  return {
+    ...date,
+    format: `${date.format} hh:mm${match[first + 2] !== undefined ? ":ss" : ""}${meridiem ? " AM/PM" : ""}`,
+    hour,
+    minute: Number(match[first + 1]),
+    second: match[first + 2] !== undefined ? Number(match[first + 2]) : undefined,
+    hasTime: true,
+    offset: normalizeOffset(match[first + 4]),
+  }
+}
+
+export function parseDate(raw: string): ParsedDate | undefined {
+  const value = raw.trim()
+  let match: RegExpMatchArray | null
+
+  if ((match = value.match(ISO_DATE)) || (match = value.match(SLASHED_ISO_DATE))) {
+    const separator = value.charAt(4)
+    const format = `YYYY${separator}MM${separator}DD`
+    return withTime({ format, year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) }, match, 4)
+  }
+
+  if ((match = value.match(NUMERIC_DATE))) {
+    const [, first, separator, second, year] = match
+    const format = `NN${separator}NN${separator}${year.length === 4 ? "YYYY" : "YY"}`
+    const date = { format, year: fullYear(year), month: Number(first), day: Number(second), ambiguous: true }
+    return withTime(date, match, 5)
+  }
+
+  if ((match = value.match(MONTH_FIRST_DATE))) {
+    const month = monthNumber(match[1])
+    if (!month) return undefined
+    return withTime({ format: "Mon D YYYY", year: Number(match[3]), month, day: Number(match[2]) }, match, 4)
+  }
+
+  if ((match = value.match(DAY_FIRST_DATE))) {
+    const month = monthNumber(match[3])
+    if (!month) return undefined
+    const format = `D${match[2]}Mon${match[2]}${match[4].length === 4 ? "YYYY" : "YY"}`
+    return withTime({ format, year: fullYear(match[4]), month, day: Number(match[1]) }, match, 5)
+  }
+
+  return undefined
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  return month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth(year, month)
+}
+
+function isValidTime({ hour, minute, second }: ParsedDate): boolean {
+  if (hour === undefined) return true
+  return hour <= 23 && minute! <= 59 && (second === undefined || second <= 59)
+}
+
+// The readings of a date that are calendar-valid, as [year, month, day]
+function interpretations(date: ParsedDate, order?: DayMonthOrder): [number, number, number][] {
+  const monthFirst: [number, number, number] = [date.year, date.month, date.day]
+  const dayFirst: [number, number, number] = [date.year, date.day, date.month]
+  const candidates = !date.ambiguous
+    ? [monthFirst]
+    : order === "day-first"
+      ? [dayFirst]
+      : order === "month-first"
+        ? [monthFirst]
+        : [monthFirst, dayFirst]
+  return candidates.filter(([year, month, day]) => isValidDate(year, month, day))
+}
+
+// A field above 12 can only be the day, which settles the order for that value
+function evidencedOrder(date: ParsedDate): DayMonthOrder | undefined {
+  if (!date.ambiguous) return undefined
+  if (date.month > 12 && date.day <= 12) return "day-first"
+  if (date.day > 12 && date.month <= 12) return "month-first"
+  return undefined
+}
+
+function formatLabel(date: ParsedDate, order: DayMonthOrder | undefined): string {
+  if (!date.ambiguous) return date.format
+  if (!order) return `${formatLabel(date, "day-first")} or ${formatLabel(date, "month-first")}`
+  const [first, second] = order === "day-first" ? ["DD", "MM"] : ["MM", "DD"]
+  return date.format.replace("NN", first).replace("NN", second)
+}
+
+function examples(values: string[]): string {
+  return Array.from(new Set(values))
+    .slice(0, MAX_EXAMPLES)
+    .map((v) => `"${v}"`)
+    .join(", ")
+}
+
+/**
+ * Checks a column whose values are mostly dates for mixed formats, day/month ambiguity, dates that can't exist,
+ * dates in the future or too far in the past, and timestamps that disagree about their time zone.
+ */
+export function dateIssues(columnType: ColumnType, rawValues: unknown[], totalRows: number): DataIssue[] {
+  const { column, type } = columnType
+  if (type === "integer" || type === "decimal" || type === "boolean") return []
+
+  const presentCount = rawValues.filter((v) => !isMissingValue(v)).length
+  const dates = rawValues.flatMap((raw, row) => {
+    if (isMissingValue(raw)) return []
+    const value = String(raw).trim()
+    const date = parseDate(value)
+    return date ? [{ value, row, date }] : []
+  })
+  if (dates.length === 0 || dates.length < presentCount * DATE_SHARE) return []
+
+  const issues: DataIssue[] = []
+  const issue = (
+    severity: DataIssue["severity"],
+    issueType: string,
+    affected: { value: string; row: number }[],
+    description: string,
+    explanation: string,
+    recommendation: string,
+  ) =>
+    issues.push({
+      column,
+      severity,
+      type: issueType,
+      description,
+      count: affected.length,
+      percentage: (affected.length / totalRows) * 100,
+      explanation,
+      recommendation,
+      rowReferences: rowReferences(affected.map(({ row }) => row)),
+      examples: exampleValues(affected.map(({ value }) => value)),
+    })
+
+  // Decide the day/month order from values that can only be read one way
+  const dayFirst = dates.filter(({ date }) => evidencedOrder(date) === "day-first")
+  const monthFirst = dates.filter(({ date }) => evidencedOrder(date) === "month-first")
+  const columnOrder: DayMonthOrder | undefined =
+    dayFirst.length && !monthFirst.length ? "day-first" : monthFirst.length && !dayFirst.length ? "month-first" : undefined
+  const orderOf = (date: ParsedDate) => columnOrder || evidencedOrder(date)
+
+  // Formats present in the column
+  const formatCounts = new Map<string, typeof dates>()
+  dates.forEach((entry) => {
+    const label = formatLabel(entry.date, orderOf(entry.date))
+    formatCounts.set(label, [...(formatCounts.get(label) || []), entry])
+  })
+  if (formatCounts.size > 1) {
+    const formats = Array.from(formatCounts.entries()).sort((a, b) => b[1].length - a[1].length)
+    const minority = formats.slice(1).flatMap(([, group]) => group)
+    const share = (minority.length / dates.length) * 100
+    issue(
+      share > 10 ? "Warning" : "Info",
+      "Inconsistent Date Formats",
+      minority,
+      `${formats.length} date formats in use: ${formats.map(([format, group]) => `${format} (${group.length}, e.g. "${group[0].value}")`).join(", ")}`,
+      `${column} mixes date formats, which usually means the data was merged from several sources or entered by hand. Parsers pick one format per column and will misread or reject the rest.`,
+      `Convert every value in ${column} to ISO 8601 (YYYY-MM-DD) and store it as a date type rather than text.`,
+    )
+  }
+
+  // Day/month order
+  if (dayFirst.length && monthFirst.length) {
+    const minority = dayFirst.length < monthFirst.length ? dayFirst : monthFirst
+    issue(
+      "Critical",
+      "Ambiguous Date Order",
+      minority,
+      `Both day-first and month-first dates are present (e.g. ${examples(dayFirst.map(({ value }) => value))} vs ${examples(monthFirst.map(({ value }) => value))})`,
+      `Some values in ${column} can only be DD/MM and others only MM/DD, so every value where both fields are 12 or less could be either and may be off by months.`,
+      `Trace ${column} back to its sources, convert each one with its own day/month order and store the result as ISO 8601.`,
+    )
+  } else if (!columnOrder) {
+    const ambiguous = dates.filter(
+      ({ date }) => date.ambiguous && date.month !== date.day && date.month <= 12 && date.day <= 12,
+    )
+    if (ambiguous.length > 0) {
+      issue(
+        "Warning",
+        "Ambiguous Date Order",
+        ambiguous,
+        `${ambiguous.length} dates could be read as either DD/MM or MM/DD (e.g. ${examples(ambiguous.map(({ value }) => value))})`,
+        `No value in ${column} has a day above 12, so nothing in the data says whether ${ambiguous[0].value} is day-first or month-first.`,
+        `Confirm the day/month order with the data owner and convert ${column} to ISO 8601 (YYYY-MM-DD).`,
+      )
+    }
+  }
+
+  // Dates that don't exist on the calendar
+  const impossible = dates.filter(({ date }) => interpretations(date, orderOf(date)).length === 0 || !isValidTime(date))
+  if (impossible.length > 0) {
+    issue(
+      "Critical",
+      "Impossible Dates",
+      impossible,
+      `${impossible.length} dates don't exist on the calendar (e.g. ${examples(impossible.map(({ value }) => value))})`,
+      `Values such as February 30th, month 13 or 25:00 in ${column} can't be real and are usually typos, swapped fields or invalid defaults.`,
+      `Correct or null out the impossible values in ${column} and validate dates at the point of entry.`,
+    )
+  }
+
+  // Dates outside the plausible range; ambiguous values are judged by their earliest valid reading
+  const now = Date.now() + 24 * 60 * 60 * 1000
+  const timestamps = dates.flatMap(({ value, row, date }) => {
+    const readings = interpretations(date, orderOf(date)).map(([year, month, day]) => Date.UTC(year, month - 1, day))
+    return readings.length > 0 ? [{ value, row, time: range(readings).min }] : []
+  })
+
+  const future = PLANNED_DATE_NAMES.test(column) ? [] : timestamps.filter(({ time }) => time > now)
+  if (future.length > 0) {
+    issue(
+      (future.length / timestamps.length) * 100 > 5 ? "Warning" : "Info",
+      "Future Dates",
+      future,
+      `${future.length} dates are in the future (e.g. ${examples(future.map(({ value }) => value))})`,
+      `${column} records past events, so dates after today point to typos in the year, swapped day and month, or clocks set wrong.`,
+      `Review the future values in ${column} and reject dates after the current date at the point of entry.`,
+    )
+  }
+
+  const placeholders = PLACEHOLDER_DATES.map((date) => Date.parse(date))
+  const implausible = timestamps.filter(
+    ({ time }) => new Date(time).getUTCFullYear() < EARLIEST_PLAUSIBLE_YEAR || placeholders.includes(time),
+  )
+  if (implausible.length > 0) {
+    issue(
+      (implausible.length / timestamps.length) * 100 > 5 ? "Warning" : "Info",
+      "Implausible Dates",
+      implausible,
+      `${implausible.length} dates fall before ${EARLIEST_PLAUSIBLE_YEAR} or on a placeholder date (e.g. ${examples(implausible.map(({ value }) => value))})`,
+      `Dates such as 1900-01-01 or 1970-01-01 in ${column} are usually defaults written by a system or spreadsheet in place of a missing value.`,
+      `Replace placeholder dates in ${column} with nulls and investigate values before ${EARLIEST_PLAUSIBLE_YEAR}.`,
+    )
+  }
+
+  // Time zones
+  const timed = dates.filter(({ date }) => date.hasTime)
+  const aware = timed.filter(({ date }) => date.offset !== undefined)
+  const naive = timed.filter(({ date }) => date.offset === undefined)
+  const offsets = new Set(aware.map(({ date }) => date.offset))
+
+  if (aware.length > 0 && naive.length > 0) {
+    const minority = aware.length < naive.length ? aware : naive
+    issue(
+      "Warning",
+      "Timezone Inconsistency",
+      minority,
+      `${aware.length} timestamps carry a UTC offset and ${naive.length} don't (e.g. ${examples(aware.map(({ value }) => value))} vs ${examples(naive.map(({ value }) => value))})`,
+      `Timestamps in ${column} without an offset can't be placed on the same timeline as those with one, so ordering and durations across them may be off by hours.`,
+      `Store every timestamp in ${column} in UTC with an explicit offset, or record the source time zone in a separate column.`,
+    )
+  } else if (offsets.size > 1) {
+    issue(
+      "Info",
+      "Timezone Inconsistency",
+      aware.filter(({ date }) => date.offset !== aware[0].date.offset),
+      `Timestamps use ${offsets.size} different UTC offsets (${Array.from(offsets).slice(0, 5).join(", ")})`,
+      `Mixed offsets in ${column} can be legitimate (daylight saving time, several regions), but they make the raw strings unsafe to sort or compare as text.`,
+      `Normalize ${column} to UTC before sorting, grouping by day or computing durations.`,
+    )
+  }
+
+  return issues
+}
@@ -0,0 +1,115 @@
+import { isMissingValue } from "@/lib/infer"
+import { exampleValues, rowReferences } from "@/lib/references"
+import { range } from "@/lib/stats"
+import type { ColumnType, DataIssue, SemanticType } from "@/lib/types"
+
+const MAX_COLUMNS = 30
+const MIN_ROWS = 20
+// A → B is reported when B matches A's usual B on at least this share of rows, but not on all of them
+const DEPENDENCY_THRESHOLD = 0.98
+// A determinant this close to unique has mostly one row per value, which "determines" anything trivially
+const MAX_DISTINCT_RATIO = 0.5
+// Measurements and dates rarely determine or depend on anything by value
+const DEPENDENCY_TYPES: SemanticType[] = ["categorical", "text", "identifier", "integer", "boolean"]
+
+interface Dependency {
+  determinant: string
+  dependent: string
+  // Share of rows, among determinant values seen more than once, that carry the usual dependent value
+  share: number
+  violations: number[]
+  // Usual dependent value for each determinant value
+  expected: Map<string, string>
+}
+
+function normalize(value: unknown): string | undefined {
+  return isMissingValue(value) ? undefined : String(value).trim()
+}
+
+function dependency(
+  determinant: string,
+  dependent: string,
+  left: (string | undefined)[],
+  right: (string | undefined)[],
+): Dependency | undefined {
+  const groups = new Map<string, Map<string, number>>()
+  const dependentCounts = new Map<string, number>()
+  let rows = 0
+
+  left.forEach((a, index) => {
+    const b = right[index]
+    if (a === undefined || b === undefined) return
+    rows++
+    const group = groups.get(a) || new Map<string, number>()
+    group.set(b, (group.get(b) || 0) + 1)
+    groups.set(a, group)
+    dependentCounts.set(b, (dependentCounts.get(b) || 0) + 1)
+  })
+
+  if (rows < MIN_ROWS || groups.size > rows * MAX_DISTINCT_RATIO) return undefined
+  // A near-constant dependent follows from any column
+  if (range(dependentCounts.values()).max / rows >= DEPENDENCY_THRESHOLD) return undefined
+
+  const expected = new Map<string, string>()
+  let agreeing = 0
+  let covered = 0
+  groups.forEach((group, a) => {
+    const [usual, count] = Array.from(group.entries()).reduce((best, entry) => (entry[1] > best[1] ? entry : best))
+    const size = Array.from(group.values()).reduce((sum, n) => sum + n, 0)
+    expected.set(a, usual)
+    if (size < 2) return
+    agreeing += count
+    covered += size
+  })
+
+  const share = covered > 0 ? agreeing / covered : 0
+  if (share < DEPENDENCY_THRESHOLD || share === 1) return undefined
+
+  const violations: number[] = []
+  left.forEach((a, index) => {
+    const b = right[index]
+    if (a !== undefined && b !== undefined && expected.get(a) !== b) violations.push(index)
+  })
+  return { determinant, dependent, share, violations, expected }
+}
+
+/**
+ * Discovers approximate functional dependencies between pairs of columns (each `zip_code` has one `city`) that hold
+ * for nearly every row, and reports the rows that break them. Exact dependencies have nothing to report.
+ */
+export function dependencyIssues(data: any[], columnTypes: ColumnType[]): DataIssue[] {
+  const candidates = columnTypes.filter(({ type }) => DEPENDENCY_TYPES.includes(type)).slice(0, MAX_COLUMNS)
+  const values = candidates.map(({ column }) => data.map((row) => normalize(row[column])))
+  const issues: DataIssue[] = []
+
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const forward = dependency(candidates[i].column, candidates[j].column, values[i], values[j])
+      const backward = dependency(candidates[j].column, candidates[i].column, values[j], values[i])
+      // A one-to-one pair (code and name) breaks both ways on the same rows; the stronger direction says it once
+      const found = forward && backward ? (forward.share >= backward.share ? forward : backward) : forward || backward
+      if (!found) continue
+
+      const { determinant, dependent, share, violations, expected } = found
+      issues.push({
+        column: `${determinant}, ${dependent}`,
+        severity: "Warning",
+        type: "Dependency Violation",
+        description: `${violations.length} rows break ${determinant} → ${dependent}, which holds for ${(share * 100).toFixed(1)}% of rows`,
+        count: violations.length,
+        percentage: (violations.length / data.length) * 100,
+        explanation: `Each ${determinant} almost always comes with a single ${dependent}, so rows pairing it with a different ${dependent} are likely typos or stale values.`,
+        recommendation: `Compare these rows with the usual ${dependent} for their ${determinant} and correct whichever value is wrong.`,
+        rowReferences: rowReferences(violations),
+        examples: exampleValues(
+          violations.map((index) => {
+            const a = normalize(data[index][determinant])!
+            return `${a} → ${normalize(data[index][dependent])} (usually ${expected.get(a)})`
+          }),
+        ),
+      })
+    }
+  }
+
+  return issues
+}
@@ -0,0 +1,144 @@
+import { isMissingValue } from "@/lib/infer"
+import { exampleValues, indicesWhere, rowReferences } from "@/lib/references"
+import type { CandidateKey, ColumnType, DataIssue, SemanticType } from "@/lib/types"
+
+// A column or column combination counts as a candidate key when at least this share of rows is unique on it
+const KEY_UNIQUENESS = 0.99
+const DISCOVERY_SAMPLE_SIZE = 10000
+const MAX_COMPOSITE_COLUMNS = 20
+const KEY_TYPES: SemanticType[] = ["identifier", "integer", "categorical", "date", "datetime", "text"]
+
+function rowKey(row: Record<string, any>, columns: string[]): string {
+  return JSON.stringify(columns.map((column) => (isMissingValue(row[column]) ? null : String(row[column]))))
+}
+
+// Positions of rows whose key repeats an earlier row
+function duplicateRows(data: Record<string, any>[], columns: string[], skipIncomplete = false): number[] {
+  const seen = new Set<string>()
+
+  return indicesWhere(data, (row) => {
+    if (skipIncomplete && columns.some((column) => isMissingValue(row[column]))) return false
+    const key = rowKey(row, columns)
+    if (seen.has(key)) return true
+    seen.add(key)
+    return false
+  })
+}
+
+function uniqueness(rows: Record<string, any>[], columns: string[]): number {
+  const complete = rows.filter((row) => columns.every((column) => !isMissingValue(row[column])))
+  return new Set(complete.map((row) => rowKey(row, columns))).size / rows.length
+}
+
+export function fullRowDuplicateIssue(data: Record<string, any>[], columns: string[]): DataIssue | undefined {
+  const rows = duplicateRows(data, columns)
+  const duplicates = rows.length
+  if (duplicates === 0) return undefined
+
+  const percentage = (duplicates / data.length) * 100
+  return {
+    column: "(all columns)",
+    severity: percentage > 1 ? "Critical" : "Warning",
+    type: "Duplicate Rows",
+    description: `${duplicates} rows are exact copies of an earlier row (first at row ${rows[0] + 1})`,
+    count: duplicates,
+    percentage,
+    explanation: "Fully duplicated records usually come from a job that ran twice, an export that was appended instead of replaced, or a join that fanned out.",
+    recommendation: "Drop exact duplicates and check the loading process for double-writes.",
+    rowReferences: rowReferences(rows),
+  }
+}
+
+/**
+ * Finds single columns and column pairs that are (nearly) unique, ranked by uniqueness and then width.
+ * Discovery runs on a sample so it stays cheap on wide files.
+ */
+export function discoverCandidateKeys(data: Record<string, any>[], columnTypes: ColumnType[]): CandidateKey[] {
+  const sample = data.slice(0, DISCOVERY_SAMPLE_SIZE)
+  if (sample.length < 2) return []
+
+  const keys: CandidateKey[] = []
+  const nonKeys: { column: string; score: number }[] = []
+
+  columnTypes.forEach(({ column, type }) => {
+    if (!KEY_TYPES.includes(type)) return
+    const score = uniqueness(sample, [column])
+    if (score >= KEY_UNIQUENESS) keys.push({ columns: [column], uniqueness: score })
+    else nonKeys.push({ column, score })
+  })
+
+  // Pairs are only built from columns that aren't keys on their own and aren't constant; the most selective go first
+  const pairColumns = nonKeys
+    .filter(({ score }) => score * sample.length > 1)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_COMPOSITE_COLUMNS)
+    .map(({ column }) => column)
+
+  for (let i = 0; i < pairColumns.length; i++) {
+    for (let j = i + 1; j < pairColumns.length; j++) {
+      const columns = [pairColumns[i], pairColumns[j]]
+      const score = uniqueness(sample, columns)
+      if (score >= KEY_UNIQUENESS) keys.push({ columns, uniqueness: score })
+    }
+  }
+
+  return keys.sort((a, b) => b.uniqueness - a.uniqueness || a.columns.length - b.columns.length).slice(0, 10)
+}
+
+export function primaryKeyIssues(data: Record<string, any>[], primaryKey: string[], columns: string[]): DataIssue[] {
+  const keyName = primaryKey.join(" + ")
+  const missingColumns = primaryKey.filter((column) => !columns.includes(column))
+
+  if (missingColumns.length > 0) {
+    return [
+      {
+        column: keyName,
+        severity: "Warning",
+        type: "Primary Key",
+        description: `Declared key column${missingColumns.length > 1 ? "s" : ""} not found: ${missingColumns.join(", ")}`,
+        count: 0,
+        percentage: 0,
+        explanation: "The declared primary key refers to columns that are not in this dataset, so uniqueness could not be checked.",
+        recommendation: "Pick key columns from the dataset's header, or clear the declared key.",
+      },
+    ]
+  }
+
+  const issues: DataIssue[] = []
+  const incompleteRows = indicesWhere(data, (row) => primaryKey.some((column) => isMissingValue(row[column])))
+  const incomplete = incompleteRows.length
+
+  if (incomplete > 0) {
+    issues.push({
+      column: keyName,
+      severity: "Critical",
+      type: "Primary Key",
+      description: `${incomplete} rows have an empty primary key`,
+      count: incomplete,
+      percentage: (incomplete / data.length) * 100,
+      explanation: `Rows without a value for ${keyName} cannot be referenced, joined or deduplicated reliably.`,
+      recommendation: `Make ${keyName} mandatory at the source and backfill or drop the rows that lack it.`,
+      rowReferences: rowReferences(incompleteRows),
+    })
+  }
+
+  const repeated = duplicateRows(data, primaryKey, true)
+  const duplicates = repeated.length
+
+  if (duplicates > 0) {
+    issues.push({
+      column: keyName,
+      severity: "Critical",
+      type: "Duplicate Values",
+      description: `${duplicates} duplicate values of the declared primary key (first repeat at row ${repeated[0] + 1})`,
+      count: duplicates,
+      percentage: (duplicates / data.length) * 100,
+      explanation: `${keyName} is declared as the primary key, so every row must have a distinct value.`,
+      recommendation: `Implement unique constraints and data deduplication process for ${keyName}.`,
+      rowReferences: rowReferences(repeated),
+      examples: exampleValues(repeated.map((index) => primaryKey.map((column) => data[index][column]).join(" + "))),
+    })
+  }
+
+  return issues
+}
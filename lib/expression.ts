@@ -0,0 +1,116 @@
+// Arithmetic over a row's columns, e.g. `quantity * unit_price` or `(net + tax) / 100`
+export type Expression =
+  | { kind: "number"; value: number }
+  | { kind: "column"; name: string }
+  | { kind: "negate"; operand: Expression }
+  | { kind: "binary"; op: "+" | "-" | "*" | "/"; left: Expression; right: Expression }
+
+type Token = { kind: "number"; value: number } | { kind: "column"; name: string } | { kind: "symbol"; value: string }
+
+// Column names are bare words (dots allowed, as in flattened paths) or `backquoted` when they hold anything else
+const TOKEN = /\s*(?:(\d+(?:\.\d+)?(?:e[+-]?\d+)?)|([A-Za-z_][\w.]*)|`([^`]+)`|([-+*/()]))/iy
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  TOKEN.lastIndex = 0
+  while (TOKEN.lastIndex < text.length) {
+    if (!text.slice(TOKEN.lastIndex).trim()) break
+    const start = TOKEN.lastIndex
+    const match = TOKEN.exec(text)
+    if (!match) throw new Error(`Unexpected "${text.slice(start).trim().charAt(0)}" at position ${start + 1}`)
+    const [, number, word, quoted, symbol] = match
+    if (number !== undefined) tokens.push({ kind: "number", value: Number(number) })
+    else if (symbol !== undefined) tokens.push({ kind: "symbol", value: symbol })
+    else tokens.push({ kind: "column", name: word ?? quoted })
+  }
+  return tokens
+}
+
+/**
+ * Parses `+ - * /` with the usual precedence, unary minus and parentheses. Throws with a readable message when the
+ * text isn't a complete expression.
+ */
+export function parseExpression(text: string): Expression {
+  const tokens = tokenize(text)
+  let position = 0
+
+  const peek = (value: string) => {
+    const token = tokens[position]
+    return token?.kind === "symbol" && token.value === value
+  }
+
+  const primary = (): Expression => {
+    const token = tokens[position++]
+    if (!token) throw new Error("Expression ends too early")
+    if (token.kind === "number" || token.kind === "column") return token
+    if (token.value === "-") return { kind: "negate", operand: primary() }
+    if (token.value === "(") {
+      const inner = sum()
+      if (!peek(")")) throw new Error("Missing closing parenthesis")
+      position++
+      return inner
+    }
+    throw new Error(`Unexpected "${token.value}"`)
+  }
+
+  const product = (): Expression => {
+    let left = primary()
+    while (peek("*") || peek("/")) {
+      const op = (tokens[position++] as { value: "*" | "/" }).value
+      left = { kind: "binary", op, left, right: primary() }
+    }
+    return left
+  }
+
+  const sum = (): Expression => {
+    let left = product()
+    while (peek("+") || peek("-")) {
+      const op = (tokens[position++] as { value: "+" | "-" }).value
+      left = { kind: "binary", op, left, right: product() }
+    }
+    return left
+  }
+
+  const expression = sum()
+  if (position < tokens.length) throw new Error("Unexpected text after the expression")
+  return expression
+}
+
+export function expressionColumns(expression: Expression): string[] {
+  switch (expression.kind) {
+    case "number":
+      return []
+    case "column":
+      return [expression.name]
+    case "negate":
+      return expressionColumns(expression.operand)
+    case "binary":
+      return Array.from(new Set([...expressionColumns(expression.left), ...expressionColumns(expression.right)]))
+  }
+}
+
+// undefined when a column is empty or not a number, or on division by zero
+export function evaluateExpression(expression: Expression, row: Record<string, unknown>): number | undefined {
+  switch (expression.kind) {
+    case "number":
+      return expression.value
+    case "column": {
+      const raw = row[expression.name]
+      const value = typeof raw === "number" ? raw : typeof raw === "string" && raw.trim() ? Number(raw) : NaN
+      return Number.isFinite(value) ? value : undefined
+    }
+    case "negate": {
+      const value = evaluateExpression(expression.operand, row)
+      return value === undefined ? undefined : -value
+    }
+    case "binary": {
+      const left = evaluateExpression(expression.left, row)
+      const right = evaluateExpression(expression.right, row)
+      if (left === undefined || right === undefined) return undefined
+      if (expression.op === "+") return left + right
+      if (expression.op === "-") return left - right
+      if (expression.op === "*") return left * right
+      return right === 0 ? undefined : left / right
+    }
+  }
+}
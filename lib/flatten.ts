@@ -0,0 +1,209 @@
+import { rowReferences } from "@/lib/references"
+import type { DataIssue } from "@/lib/types"
+
+type Shape = "object" | "array" | "scalar"
+
+export interface FlattenResult {
+  rows: Record<string, string>[]
+  columns: string[]
+  issues: DataIssue[]
+}
+
+interface PathStats {
+  // How many times an object at this path was seen, i.e. how many chances its keys had to appear
+  objectCount: number
+  // How many times this path appeared as a key of its parent object
+  keyCount: number
+  shapes: Record<Shape, number>
+  arrayLengths: number[]
+  // Record indices behind the counts above, so issues can point at the rows they come from
+  objectRecords: Set<number>
+  keyRecords: Set<number>
+  shapeRecords: Record<Shape, Set<number>>
+  arrayRecords: number[]
+}
+
+function parentPath(path: string): string {
+  const index = path.lastIndexOf(".")
+  return index === -1 ? "" : path.slice(0, index)
+}
+
+function joinPath(prefix: string, key: string): string {
+  return prefix ? `${prefix}.${key}` : key
+}
+
+function stringifyLeaf(value: unknown): string {
+  if (value === null || value === undefined) return ""
+  return typeof value === "object" ? JSON.stringify(value) : String(value)
+}
+
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q
+  const base = Math.floor(position)
+  const rest = position - base
+  return sorted[base + 1] !== undefined ? sorted[base] + rest * (sorted[base + 1] - sorted[base]) : sorted[base]
+}
+
+/**
+ * Flattens nested records into dotted column paths (`address.city`, `items[].sku`) over the union of keys
+ * across all records. Values under an array path are kept together as a JSON list in a single cell.
+ */
+export function flattenRecords(records: Record<string, any>[]): FlattenResult {
+  const stats = new Map<string, PathStats>()
+  const columns: string[] = []
+  const columnSet = new Set<string>()
+
+  const statsFor = (path: string) => {
+    let entry = stats.get(path)
+    if (!entry) {
+      entry = {
+        objectCount: 0,
+        keyCount: 0,
+        shapes: { object: 0, array: 0, scalar: 0 },
+        arrayLengths: [],
+        objectRecords: new Set(),
+        keyRecords: new Set(),
+        shapeRecords: { object: new Set(), array: new Set(), scalar: new Set() },
+        arrayRecords: [],
+      }
+      stats.set(path, entry)
+    }
+    return entry
+  }
+
+  const walk = (value: unknown, path: string, leaves: Map<string, unknown[]>, record: number) => {
+    const entry = statsFor(path)
+
+    if (Array.isArray(value)) {
+      entry.shapes.array++
+      entry.shapeRecords.array.add(record)
+      entry.arrayLengths.push(value.length)
+      entry.arrayRecords.push(record)
+      value.forEach((element) => walk(element, `${path}[]`, leaves, record))
+      return
+    }
+
+    if (value !== null && typeof value === "object") {
+      entry.shapes.object++
+      entry.shapeRecords.object.add(record)
+      entry.objectCount++
+      entry.objectRecords.add(record)
+      Object.entries(value).forEach(([key, child]) => {
+        const childPath = joinPath(path, key)
+        const childEntry = statsFor(childPath)
+        childEntry.keyCount++
+        childEntry.keyRecords.add(record)
+        walk(child, childPath, leaves, record)
+      })
+      return
+    }
+
+    if (value !== null && value !== undefined) {
+      entry.shapes.scalar++
+      entry.shapeRecords.scalar.add(record)
+    }
+    if (!columnSet.has(path)) {
+      columnSet.add(path)
+      columns.push(path)
+    }
+    const existing = leaves.get(path)
+    if (existing) existing.push(value)
+    else leaves.set(path, [value])
+  }
+
+  const leafRows = records.map((record, index) => {
+    const leaves = new Map<string, unknown[]>()
+    walk(record, "", leaves, index)
+    return leaves
+  })
+
+  const rows = leafRows.map((leaves) => {
+    const row: Record<string, string> = {}
+    columns.forEach((column) => {
+      const values = leaves.get(column)
+      if (!values) row[column] = ""
+      else if (column.includes("[]")) row[column] = values.every((v) => v === null) ? "" : JSON.stringify(values)
+      else row[column] = stringifyLeaf(values[0])
+    })
+    return row
+  })
+
+  return { rows, columns, issues: nestedIssues(stats) }
+}
+
+function nestedIssues(stats: Map<string, PathStats>): DataIssue[] {
+  const issues: DataIssue[] = []
+
+  stats.forEach((entry, path) => {
+    if (!path) return
+
+    // Only count an absent key against records where its parent object was there to hold it
+    const parent = stats.get(parentPath(path))
+    const opportunities = parent ? parent.objectCount : 0
+    const absent = opportunities - entry.keyCount
+    if (entry.keyCount > 0 && absent > 0) {
+      const percentage = (absent / opportunities) * 100
+      const scope = parentPath(path) ? `\`${parentPath(path)}\` objects` : "records"
+      issues.push({
+        column: path,
+        severity: percentage > 5 ? "Warning" : "Info",
+        type: "Missing Key",
+        description: `Key absent in ${absent} of ${opportunities} ${scope}`,
+        count: absent,
+        percentage,
+        explanation: `${path} is only present in some records, which usually means the producer omits empty fields or the schema changed over time.`,
+        recommendation: `Emit ${path} in every record (null when unknown) so consumers can tell "missing" from "not applicable".`,
+        rowReferences: rowReferences(
+          Array.from(parent!.objectRecords).filter((record) => !entry.keyRecords.has(record)),
+        ),
+      })
+    }
+
+    const shapes = (Object.entries(entry.shapes) as [Shape, number][]).filter(([, n]) => n > 0)
+    if (shapes.length > 1) {
+      const total = shapes.reduce((sum, [, n]) => sum + n, 0)
+      const [dominant] = shapes.reduce((a, b) => (b[1] > a[1] ? b : a))
+      const minority = total - entry.shapes[dominant]
+      const minorityRecords = new Set<number>()
+      shapes.forEach(([shape]) => {
+        if (shape !== dominant) entry.shapeRecords[shape].forEach((record) => minorityRecords.add(record))
+      })
+      issues.push({
+        column: path,
+        severity: "Warning",
+        type: "Inconsistent Nesting",
+        description: `Value is ${shapes.map(([shape, n]) => `${shape} in ${n}`).join(", ")} occurrences`,
+        count: minority,
+        percentage: (minority / total) * 100,
+        explanation: `${path} changes shape between records (e.g. a plain string in some and a nested object in others), which breaks flattening and downstream schemas.`,
+        recommendation: `Normalize ${path} to a single ${dominant} representation at the source.`,
+        rowReferences: rowReferences(Array.from(minorityRecords).sort((a, b) => a - b)),
+      })
+    }
+
+    if (entry.arrayLengths.length >= 4) {
+      const sorted = [...entry.arrayLengths].sort((a, b) => a - b)
+      const q1 = quantile(sorted, 0.25)
+      const q3 = quantile(sorted, 0.75)
+      const upper = q3 + 3 * Math.max(q3 - q1, 1)
+      const long = sorted.filter((length) => length > upper)
+      const longRecords = entry.arrayRecords.filter((_, index) => entry.arrayLengths[index] > upper)
+
+      if (long.length > 0) {
+        issues.push({
+          column: path,
+          severity: "Info",
+          type: "Array Length Anomaly",
+          description: `${long.length} arrays are unusually long (up to ${sorted[sorted.length - 1]} items, median ${quantile(sorted, 0.5)})`,
+          count: long.length,
+          percentage: (long.length / sorted.length) * 100,
+          explanation: `Most ${path} arrays hold at most ${Math.floor(upper)} items; much longer ones often come from duplicated line items or runaway appends.`,
+          recommendation: `Inspect the records with the longest ${path} arrays and check for repeated elements.`,
+          rowReferences: rowReferences(Array.from(new Set(longRecords))),
+        })
+      }
+    }
+  })
+
+  return issues
+}
@@ -0,0 +1,146 @@
+import { indicesWhere, rowReferences } from "@/lib/references"
+import type { ColumnType, DataIssue, SemanticType } from "@/lib/types"
+
+type ValueKind = "integer" | "decimal" | "boolean" | "date" | "datetime" | "string"
+
+const INTEGER_PATTERN = /^[+-]?\d+$/
+const DECIMAL_PATTERN = /^[+-]?(\d+\.\d*|\.\d+|\d+(\.\d*)?[eE][+-]?\d+)$/
+const BOOLEAN_VALUES = new Set(["true", "false", "yes", "no", "y", "n", "t", "f"])
+const DATE_PATTERNS = [
+  /^\d{4}-\d{1,2}-\d{1,2}$/,
+  /^\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}$/,
+  /^\d{4}\/\d{1,2}\/\d{1,2}$/,
+  /^[A-Za-z]{3,9}\.? \d{1,2}(st|nd|rd|th)?,? \d{4}$/,
+  /^\d{1,2}[ -][A-Za-z]{3,9}\.?,?[ -]\d{2,4}$/,
+]
+const DATETIME_PATTERN = /^(\d{4}[-/]\d{1,2}[-/]\d{1,2}|\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4})[T ]\d{1,2}:\d{2}/
+const IDENTIFIER_NAMES = [
+  /(^|[_\s.-])(id|key|uuid|guid|sku|code|zip|zipcode|postcode|phone)$/i,
+  /[a-z](Id|ID|Key|Code)$/,
+]
+
+// Share of non-missing values a structured type needs before the column is considered that type
+const DOMINANT_SHARE = 0.8
+
+export function isIdentifierName(column: string): boolean {
+  return IDENTIFIER_NAMES.some((pattern) => pattern.test(column))
+}
+
+export function isMissingValue(value: unknown): boolean {
+  return value === undefined || value === null || value === "" || value === "null" || value === "undefined"
+}
+
+function classifyValue(raw: string): ValueKind {
+  const value = raw.trim()
+  if (INTEGER_PATTERN.test(value)) return "integer"
+  if (DECIMAL_PATTERN.test(value)) return "decimal"
+  if (BOOLEAN_VALUES.has(value.toLowerCase())) return "boolean"
+  if (DATETIME_PATTERN.test(value)) return "datetime"
+  if (DATE_PATTERNS.some((pattern) => pattern.test(value))) return "date"
+  return "string"
+}
+
+// Prefers the narrowest structured type that still covers most values
+function structuredType(counts: Record<ValueKind, number>, total: number): [SemanticType, ValueKind[]] | undefined {
+  const share = (...kinds: ValueKind[]) => kinds.reduce((sum, kind) => sum + counts[kind], 0) / total
+
+  if (share("integer") >= DOMINANT_SHARE) return ["integer", ["integer"]]
+  if (share("integer", "decimal") >= DOMINANT_SHARE) return ["decimal", ["integer", "decimal"]]
+  if (share("boolean") >= DOMINANT_SHARE) return ["boolean", ["boolean"]]
+  if (share("date") >= DOMINANT_SHARE) return ["date", ["date"]]
+  if (share("date", "datetime") >= DOMINANT_SHARE) return ["datetime", ["date", "datetime"]]
+  return undefined
+}
+
+// Integer-looking codes (ZIP codes, account numbers) have leading zeros or a fixed width and no numeric meaning
+function looksLikeCode(values: string[]): boolean {
+  if (values.some((v) => v.length > 1 && v.startsWith("0"))) return true
+  return values[0].length >= 5 && values.every((v) => v.length === values[0].length)
+}
+
+function classifyValues(values: string[]): { kinds: ValueKind[]; structured?: [SemanticType, ValueKind[]] } {
+  const kinds = values.map(classifyValue)
+  const counts: Record<ValueKind, number> = { integer: 0, decimal: 0, boolean: 0, date: 0, datetime: 0, string: 0 }
+  kinds.forEach((kind) => counts[kind]++)
+  return { kinds, structured: structuredType(counts, values.length) }
+}
+
+export function inferColumnType(column: string, rawValues: unknown[]): ColumnType {
+  const values = rawValues.filter((v) => !isMissingValue(v)).map((v) => String(v).trim())
+  if (values.length === 0) {
+    return { column, type: "text", confidence: 0, valueCount: 0, mismatchCount: 0, mismatchExamples: [] }
+  }
+
+  const { kinds, structured } = classifyValues(values)
+  const nameSuggestsId = isIdentifierName(column)
+  let type: SemanticType
+  let mismatches: string[] = []
+
+  if (structured) {
+    const [structuredKind, accepted] = structured
+    const matching = values.filter((_, i) => accepted.includes(kinds[i]))
+    mismatches = values.filter((_, i) => !accepted.includes(kinds[i]))
+    type = structuredKind
+
+    if (type === "integer" && matching.every((v) => v === "0" || v === "1")) type = "boolean"
+    else if (type === "integer" && (nameSuggestsId || looksLikeCode(matching))) type = "identifier"
+  } else {
+    const distinct = new Set(values).size
+    const nearlyUnique = values.length > 20 && distinct / values.length >= 0.95 && values.every((v) => !/\s/.test(v))
+
+    if (nameSuggestsId || nearlyUnique) type = "identifier"
+    else if (distinct <= 50 && distinct / values.length <= 0.5) type = "categorical"
+    else type = "text"
+  }
+
+  return {
+    column,
+    type,
+    confidence: (values.length - mismatches.length) / values.length,
+    valueCount: values.length,
+    mismatchCount: mismatches.length,
+    mismatchExamples: Array.from(new Set(mismatches)).slice(0, 5),
+  }
+}
+
+const TYPE_LABELS: Record<SemanticType, string> = {
+  integer: "integer",
+  decimal: "numeric",
+  boolean: "boolean",
+  date: "date",
+  datetime: "datetime",
+  categorical: "categorical",
+  text: "text",
+  identifier: "numeric",
+}
+
+export function isNumericType(type: SemanticType): boolean {
+  return type === "integer" || type === "decimal"
+}
+
+export function mixedTypeIssue(info: ColumnType, rawValues: unknown[], totalRows: number): DataIssue | undefined {
+  if (info.mismatchCount === 0) return undefined
+
+  // Classify again with row positions kept, so the mismatching rows can be referenced
+  const present = indicesWhere(rawValues, (v) => !isMissingValue(v))
+  const { kinds, structured } = classifyValues(present.map((index) => String(rawValues[index]).trim()))
+  const accepted = structured ? structured[1] : []
+  const mismatchRows = present.filter((_, i) => !accepted.includes(kinds[i]))
+
+  const share = (info.mismatchCount / info.valueCount) * 100
+  const label = TYPE_LABELS[info.type]
+  const examples = info.mismatchExamples.map((e) => `"${e}"`).join(", ")
+
+  return {
+    column: info.column,
+    severity: share > 5 ? "Warning" : "Info",
+    type: "Mixed Types",
+    description: `${share.toFixed(1)}% of values in a ${label} column are not ${label} (e.g. ${examples})`,
+    count: info.mismatchCount,
+    percentage: (info.mismatchCount / totalRows) * 100,
+    explanation: `${info.column} is mostly ${label}, but some values don't parse as such. These are often placeholders, unit suffixes or data entry errors, and they force the whole column to be treated as text.`,
+    recommendation: `Clean or null out the non-${label} values in ${info.column} and enforce the type at the source.`,
+    rowReferences: rowReferences(mismatchRows),
+    examples: info.mismatchExamples,
+  }
+}
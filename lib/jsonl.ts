@@ -0,0 +1,79 @@
+import type { DataIssue } from "@/lib/types"
+
+export interface LineError {
+  line: number
+  message: string
+}
+
+export interface JSONLinesResult {
+  records: Record<string, any>[]
+  errors: LineError[]
+  totalLines: number
+}
+
+export const JSON_LINES_EXTENSIONS = [".jsonl", ".ndjson"]
+export const JSON_LINES_MIME_TYPES = ["application/x-ndjson", "application/jsonl", "application/jsonlines"]
+
+// Each line is parsed on its own so one bad line doesn't take the rest of the file down with it
+export function parseJSONLines(text: string): JSONLinesResult {
+  const records: Record<string, any>[] = []
+  const errors: LineError[] = []
+  const lines = text.split(/\r?\n/)
+  let totalLines = 0
+
+  lines.forEach((raw, index) => {
+    if (raw.trim() === "") return
+    totalLines++
+
+    try {
+      const value = JSON.parse(raw)
+      if (value === null || typeof value !== "object" || Array.isArray(value)) {
+        errors.push({ line: index + 1, message: `Expected a JSON object, got ${Array.isArray(value) ? "array" : typeof value}` })
+      } else {
+        records.push(value)
+      }
+    } catch (e) {
+      errors.push({ line: index + 1, message: e instanceof Error ? e.message : String(e) })
+    }
+  })
+
+  return { records, errors, totalLines }
+}
+
+// A .json upload that fails JSON.parse is often JSON Lines under the wrong extension
+export function looksLikeJSONLines(text: string): boolean {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== "")
+  if (lines.length < 2) return false
+
+  try {
+    const first = JSON.parse(lines[0])
+    return first !== null && typeof first === "object" && !Array.isArray(first)
+  } catch {
+    return false
+  }
+}
+
+export function lineErrorIssues({ errors, totalLines }: JSONLinesResult): DataIssue[] {
+  if (errors.length === 0) return []
+
+  const percentage = (errors.length / totalLines) * 100
+  const examples = errors
+    .slice(0, 5)
+    .map((e) => `line ${e.line}: ${e.message}`)
+    .join("; ")
+  const more = errors.length > 5 ? `; and ${errors.length - 5} more` : ""
+
+  return [
+    {
+      column: "(row structure)",
+      severity: percentage > 5 ? "Critical" : "Warning",
+      type: "Structural",
+      description: `${errors.length} of ${totalLines} lines could not be parsed (${examples}${more})`,
+      count: errors.length,
+      percentage,
+      explanation:
+        "Malformed JSON lines usually come from truncated writes, log rotation mid-record or multi-line values that were not escaped. These lines were skipped and the rest of the file was analyzed.",
+      recommendation: `Check the producer around line ${errors[0].line} and make sure every record is serialized as a single-line JSON object.`,
+    },
+  ]
+}
@@ -0,0 +1,227 @@
+import { isMissingValue } from "@/lib/infer"
+import { indicesWhere, rowReferences } from "@/lib/references"
+import type { ColumnType, DataIssue, MissingnessSummary, SemanticType } from "@/lib/types"
+
+const MAX_COLUMNS = 30
+const MAX_PATTERNS = 10
+const MIN_MISSING = 5
+// Columns whose null indicators correlate at least this strongly are reported as missing together
+const CO_MISSING_CORRELATION = 0.9
+// Cramér's V between a column's null indicator and a grouping column
+const DEPENDENCY_STRENGTH = 0.3
+const GROUPING_TYPES: SemanticType[] = ["categorical", "boolean"]
+const MAX_GROUPS = 20
+const MIN_GROUP_SIZE = 5
+
+function nullMask(data: Record<string, any>[], column: string): Uint8Array {
+  const mask = new Uint8Array(data.length)
+  data.forEach((row, index) => {
+    if (isMissingValue(row[column])) mask[index] = 1
+  })
+  return mask
+}
+
+function countOnes(mask: Uint8Array): number {
+  let count = 0
+  for (let i = 0; i < mask.length; i++) count += mask[i]
+  return count
+}
+
+function countBoth(a: Uint8Array, b: Uint8Array): number {
+  let count = 0
+  for (let i = 0; i < a.length; i++) count += a[i] & b[i]
+  return count
+}
+
+// Pearson correlation of two 0/1 indicators, from their counts alone
+function nullityCorrelation(missingA: number, missingB: number, both: number, totalRows: number): number {
+  const pa = missingA / totalRows
+  const pb = missingB / totalRows
+  return (both / totalRows - pa * pb) / Math.sqrt(pa * (1 - pa) * pb * (1 - pb))
+}
+
+/**
+ * Which columns go missing together: pairwise co-missing counts and nullity correlation, plus the most common
+ * combinations of missing columns. Columns that are never or always missing carry no pattern and are left out.
+ */
+export function missingnessSummary(data: Record<string, any>[], columns: string[]): MissingnessSummary | undefined {
+  const totalRows = data.length
+  const candidates = columns
+    .map((column) => {
+      const mask = nullMask(data, column)
+      return { column, mask, missing: countOnes(mask) }
+    })
+    .filter(({ missing }) => missing > 0 && missing < totalRows)
+    .sort((a, b) => b.missing - a.missing)
+    .slice(0, MAX_COLUMNS)
+  if (candidates.length === 0) return undefined
+
+  const coMissing = candidates.map(() => candidates.map(() => 0))
+  candidates.forEach((a, i) => {
+    coMissing[i][i] = a.missing
+    for (let j = i + 1; j < candidates.length; j++) {
+      coMissing[i][j] = coMissing[j][i] = countBoth(a.mask, candidates[j].mask)
+    }
+  })
+  const correlation = coMissing.map((row, i) =>
+    row.map((both, j) =>
+      i === j ? 1 : nullityCorrelation(candidates[i].missing, candidates[j].missing, both, totalRows),
+    ),
+  )
+
+  const patternCounts = new Map<string, number>()
+  let completeRows = 0
+  for (let row = 0; row < totalRows; row++) {
+    const key = candidates
+      .map(({ mask }, i) => (mask[row] ? i : -1))
+      .filter((i) => i >= 0)
+      .join(",")
+    if (key) patternCounts.set(key, (patternCounts.get(key) || 0) + 1)
+    else completeRows++
+  }
+
+  return {
+    columns: candidates.map(({ column }) => column),
+    missing: candidates.map(({ missing }) => missing),
+    coMissing,
+    correlation,
+    patterns: Array.from(patternCounts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_PATTERNS)
+      .map(([key, count]) => ({ columns: key.split(",").map((i) => candidates[Number(i)].column), count })),
+    completeRows,
+  }
+}
+
+// Groups of columns whose nulls line up almost row for row
+function coMissingIssues(data: Record<string, any>[], summary: MissingnessSummary): DataIssue[] {
+  const { columns, correlation } = summary
+  const parents = columns.map((_, index) => index)
+  const root = (index: number): number => (parents[index] === index ? index : (parents[index] = root(parents[index])))
+
+  for (let i = 0; i < columns.length; i++) {
+    for (let j = i + 1; j < columns.length; j++) {
+      if (correlation[i][j] >= CO_MISSING_CORRELATION) parents[root(j)] = root(i)
+    }
+  }
+
+  const groups = new Map<number, string[]>()
+  columns.forEach((column, index) => groups.set(root(index), [...(groups.get(root(index)) || []), column]))
+
+  const issues: DataIssue[] = []
+  groups.forEach((group) => {
+    if (group.length < 2) return
+    const rows = indicesWhere(data, (row) => group.every((column) => isMissingValue(row[column])))
+    if (rows.length < MIN_MISSING) return
+
+    issues.push({
+      column: group.join(" + "),
+      severity: "Info",
+      type: "Co-Missing Values",
+      description: `${group.join(", ")} are missing together in ${rows.length} rows`,
+      count: rows.length,
+      percentage: (rows.length / data.length) * 100,
+      explanation: `Nulls in ${group.join(", ")} line up almost row for row, which points to a shared cause such as an optional form section, a failed lookup or an unmatched join.`,
+      recommendation: `Trace the common source of ${group.join(", ")} and treat them as one group when imputing or filtering.`,
+      rowReferences: rowReferences(rows),
+    })
+  })
+  return issues
+}
+
+interface Dependency {
+  by: string
+  strength: number
+  value: string
+  rate: number
+  otherRate: number
+  rows: number[]
+}
+
+// How strongly the null indicator depends on a grouping column, and the group where it is most often missing
+function missingDependency(mask: Uint8Array, data: Record<string, any>[], by: string): Dependency | undefined {
+  const groups = new Map<string, { size: number; rows: number[] }>()
+  data.forEach((row, index) => {
+    if (isMissingValue(row[by])) return
+    const value = String(row[by])
+    const group = groups.get(value) || { size: 0, rows: [] }
+    group.size++
+    if (mask[index]) group.rows.push(index)
+    groups.set(value, group)
+  })
+  if (groups.size < 2 || groups.size > MAX_GROUPS) return undefined
+
+  const entries = Array.from(groups.entries())
+  const total = entries.reduce((sum, [, group]) => sum + group.size, 0)
+  const missing = entries.reduce((sum, [, group]) => sum + group.rows.length, 0)
+  if (missing === 0 || missing === total) return undefined
+
+  // Chi-square on the 2 × k table of missing/present by group; for two rows Cramér's V is sqrt(chi² / n)
+  const chiSquare = entries.reduce((sum, [, { size, rows }]) => {
+    const expectedMissing = (size * missing) / total
+    const expectedPresent = size - expectedMissing
+    const present = size - rows.length
+    return (
+      sum + (rows.length - expectedMissing) ** 2 / expectedMissing + (present - expectedPresent) ** 2 / expectedPresent
+    )
+  }, 0)
+  const strength = Math.sqrt(chiSquare / total)
+
+  const worst = entries
+    .filter(([, group]) => group.size >= MIN_GROUP_SIZE)
+    .sort(([, a], [, b]) => b.rows.length / b.size - a.rows.length / a.size)[0]
+  if (!worst) return undefined
+
+  const [value, group] = worst
+  return {
+    by,
+    strength,
+    value,
+    rate: group.rows.length / group.size,
+    otherRate: (missing - group.rows.length) / Math.max(total - group.size, 1),
+    rows: group.rows,
+  }
+}
+
+function percent(rate: number): string {
+  return `${Math.round(rate * 100)}%`
+}
+
+/**
+ * Reports columns that go missing together and columns whose missingness depends on a categorical column's value,
+ * i.e. data that is not missing completely at random.
+ */
+export function missingnessIssues(data: Record<string, any>[], columnTypes: ColumnType[]): DataIssue[] {
+  const summary = missingnessSummary(data, columnTypes.map(({ column }) => column))
+  if (!summary) return []
+
+  const issues = coMissingIssues(data, summary)
+  const groupingColumns = columnTypes.filter(({ type }) => GROUPING_TYPES.includes(type)).map(({ column }) => column)
+
+  summary.columns.forEach((column, index) => {
+    if (summary.missing[index] < MIN_MISSING) return
+    const mask = nullMask(data, column)
+
+    const strongest = groupingColumns
+      .filter((by) => by !== column)
+      .map((by) => missingDependency(mask, data, by))
+      .filter((dependency): dependency is Dependency => !!dependency && dependency.strength >= DEPENDENCY_STRENGTH)
+      .sort((a, b) => b.strength - a.strength)[0]
+    if (!strongest) return
+
+    const { by, value, rate, otherRate, rows } = strongest
+    issues.push({
+      column,
+      severity: "Warning",
+      type: "Non-Random Missingness",
+      description: `${column} is missing in ${percent(rate)} of rows where ${by} is "${value}", against ${percent(otherRate)} elsewhere`,
+      count: rows.length,
+      percentage: (rows.length / data.length) * 100,
+      explanation: `Whether ${column} is filled in depends on ${by} (Cramér's V ${strongest.strength.toFixed(2)}), so its values are not missing at random. Dropping these rows or imputing a global average biases any result broken down by ${by}.`,
+      recommendation: `Find out why ${column} isn't captured when ${by} is "${value}", and impute within groups of ${by} rather than across the whole column.`,
+      rowReferences: rowReferences(rows),
+    })
+  })
+
+  return issues
+}
@@ -0,0 +1,247 @@
+import { isIdentifierName, isMissingValue, isNumericType } from "@/lib/infer"
+import { normalizeText, stringSimilarity } from "@/lib/similarity"
+import { rowReferences } from "@/lib/references"
+import type { ColumnType, DataIssue, DuplicateCluster } from "@/lib/types"
+
+export interface NearDuplicateOptions {
+  threshold?: number
+  blockingKeys?: string[]
+}
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.9
+
+const BLOCK_PREFIX_LENGTH = 3
+// Oversized blocks (e.g. every "gmail" address) are compared in sorted windows instead of all-pairs
+const MAX_BLOCK_SIZE = 200
+const WINDOW_SIZE = 20
+const MAX_COMPARISONS = 250000
+const MAX_CLUSTERS = 20
+// Real duplicates of one entity rarely run past a handful of rows; anything bigger is a chain of look-alikes
+const MAX_CLUSTER_SIZE = 25
+const MAX_SUPPORTING_COLUMNS = 10
+// A pair has to agree on more than one attribute when the data offers more than one
+const MIN_SHARED_COLUMNS = 2
+// Id-named columns this close to unique are row ids, which differ between duplicates by definition
+const ROW_ID_UNIQUENESS = 0.95
+
+interface ComparisonColumns {
+  // Free text and natural identifiers such as emails: blocked on, and they must match on their own
+  anchors: string[]
+  // Everything else that describes the record (city, phone, birth date); they can only lower a pair's score
+  supporting: ColumnType[]
+}
+
+function isRowId(data: Record<string, any>[], column: string): boolean {
+  if (!isIdentifierName(column)) return false
+  const values = data.map((row) => row[column]).filter((value) => !isMissingValue(value))
+  return values.length > 0 && new Set(values.map(String)).size / values.length >= ROW_ID_UNIQUENESS
+}
+
+// Low-cardinality columns would make unrelated records look alike on their own, so they only support the anchors
+function comparisonColumns(data: Record<string, any>[], columnTypes: ColumnType[]): ComparisonColumns {
+  const anchors = columnTypes
+    .filter(({ column, type }) => (type === "text" || type === "identifier") && !isIdentifierName(column))
+    .map(({ column }) => column)
+  const supporting = columnTypes
+    .filter(({ column, type }) => !anchors.includes(column) && type !== "boolean" && !isRowId(data, column))
+    .slice(0, MAX_SUPPORTING_COLUMNS)
+  return { anchors, supporting }
+}
+
+function blockKey(row: Record<string, any>, columns: string[]): string | undefined {
+  const parts = columns.map((column) => (isMissingValue(row[column]) ? "" : normalizeText(String(row[column]))))
+  if (parts.every((part) => part === "")) return undefined
+  return parts.map((part) => part.replace(/ /g, "").slice(0, BLOCK_PREFIX_LENGTH)).join("|")
+}
+
+function candidatePairs(data: Record<string, any>[], blockings: string[][]): [number, number][] {
+  const pairs = new Map<string, [number, number]>()
+
+  const addPair = (a: number, b: number) => {
+    const [i, j] = a < b ? [a, b] : [b, a]
+    pairs.set(`${i}:${j}`, [i, j])
+  }
+
+  blockings.forEach((columns) => {
+    const blocks = new Map<string, number[]>()
+    data.forEach((row, index) => {
+      const key = blockKey(row, columns)
+      if (key === undefined) return
+      const block = blocks.get(key)
+      if (block) block.push(index)
+      else blocks.set(key, [index])
+    })
+
+    blocks.forEach((rows) => {
+      if (rows.length <= MAX_BLOCK_SIZE) {
+        for (let i = 0; i < rows.length && pairs.size < MAX_COMPARISONS; i++) {
+          for (let j = i + 1; j < rows.length; j++) addPair(rows[i], rows[j])
+        }
+        return
+      }
+
+      const sortValues = new Map(rows.map((row) => [row, blockSortValue(data[row], columns)]))
+      const sorted = [...rows].sort((a, b) => sortValues.get(a)!.localeCompare(sortValues.get(b)!))
+      for (let i = 0; i < sorted.length && pairs.size < MAX_COMPARISONS; i++) {
+        for (let j = i + 1; j < Math.min(sorted.length, i + WINDOW_SIZE); j++) addPair(sorted[i], sorted[j])
+      }
+    })
+  })
+
+  return Array.from(pairs.values()).slice(0, MAX_COMPARISONS)
+}
+
+function blockSortValue(row: Record<string, any>, columns: string[]): string {
+  return columns.map((column) => normalizeText(String(row[column] ?? ""))).join("|")
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+function digits(value: string): string {
+  return value.replace(/\D/g, "")
+}
+
+function valueSimilarity(a: unknown, b: unknown, type: ColumnType["type"]): number {
+  if (isNumericType(type)) {
+    const left = Number(a)
+    const right = Number(b)
+    if (Number.isFinite(left) && Number.isFinite(right)) {
+      const largest = Math.max(Math.abs(left), Math.abs(right))
+      return largest === 0 ? 1 : Math.max(0, 1 - Math.abs(left - right) / largest)
+    }
+  }
+  return stringSimilarity(String(a), String(b))
+}
+
+/**
+ * Scores a pair as the mean similarity of the anchors and, separately, of every compared column; both have to reach
+ * the threshold. Anchors whose numbers differ (user1@ and user19@, "Alice Smith 12" and "Alice Smith 13") are
+ * different records however alike the rest of the text is.
+ */
+function pairSimilarity(
+  a: Record<string, any>,
+  b: Record<string, any>,
+  { anchors, supporting }: ComparisonColumns,
+  threshold: number,
+): number | undefined {
+  const anchorScores: number[] = []
+  for (const column of anchors) {
+    if (isMissingValue(a[column]) || isMissingValue(b[column])) continue
+    const left = String(a[column])
+    const right = String(b[column])
+    if (digits(left) !== digits(right)) return undefined
+    anchorScores.push(stringSimilarity(left, right))
+  }
+  if (anchorScores.length === 0 || mean(anchorScores) < threshold) return undefined
+
+  const scores = [...anchorScores]
+  supporting.forEach(({ column, type }) => {
+    if (isMissingValue(a[column]) || isMissingValue(b[column])) return
+    scores.push(valueSimilarity(a[column], b[column], type))
+  })
+  const available = anchors.length + supporting.length
+  if (scores.length < Math.min(MIN_SHARED_COLUMNS, available)) return undefined
+  const similarity = mean(scores)
+  return similarity < threshold ? undefined : similarity
+}
+
+function pairKey(a: number, b: number): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`
+}
+
+/**
+ * Complete linkage: strongest pairs first, and two clusters merge only when every record in one matches every
+ * record in the other, so look-alike chains (A~B, B~C, C~D) don't snowball into one cluster of distinct records.
+ */
+function completeLinkage(data: Record<string, any>[], links: Map<string, number>): number[][] {
+  const clusterOf = data.map((_, index) => index)
+  const members = new Map<number, number[]>()
+  const sorted = Array.from(links.entries()).sort((a, b) => b[1] - a[1])
+
+  sorted.forEach(([key]) => {
+    const [i, j] = key.split(":").map(Number)
+    const left = clusterOf[i]
+    const right = clusterOf[j]
+    if (left === right) return
+    const a = members.get(left) || [i]
+    const b = members.get(right) || [j]
+    if (a.length + b.length > MAX_CLUSTER_SIZE) return
+    if (!a.every((x) => b.every((y) => links.has(pairKey(x, y))))) return
+
+    const merged = [...a, ...b]
+    merged.forEach((row) => (clusterOf[row] = left))
+    members.set(left, merged)
+    members.delete(right)
+  })
+
+  return Array.from(members.values())
+}
+
+/**
+ * Finds clusters of records that are probably the same entity. Candidates are blocked on a short normalized
+ * prefix of the blocking columns (by default each anchor column in turn), scored across the anchors and the
+ * supporting columns, and clustered by complete linkage over the pairs that reach the threshold.
+ */
+export function findNearDuplicates(
+  data: Record<string, any>[],
+  columnTypes: ColumnType[],
+  { threshold = DEFAULT_SIMILARITY_THRESHOLD, blockingKeys = [] }: NearDuplicateOptions = {},
+): DuplicateCluster[] {
+  const comparison = comparisonColumns(data, columnTypes)
+  if (comparison.anchors.length === 0 || data.length < 2) return []
+
+  // Keys chosen for another table, or before a re-parse renamed the columns, would block every row out
+  const known = columnTypes.map(({ column }) => column)
+  const keys = blockingKeys.filter((column) => known.includes(column))
+  const blockings = keys.length > 0 ? [keys] : comparison.anchors.map((column) => [column])
+  const links = new Map<string, number>()
+
+  candidatePairs(data, blockings).forEach(([i, j]) => {
+    const similarity = pairSimilarity(data[i], data[j], comparison, threshold)
+    if (similarity === undefined) return
+
+    // Exact copies are already reported as duplicate rows
+    if (columnTypes.every(({ column }) => data[i][column] === data[j][column])) return
+
+    links.set(pairKey(i, j), similarity)
+  })
+
+  const columns = [...comparison.anchors, ...comparison.supporting.map(({ column }) => column)]
+  return completeLinkage(data, links)
+    .map((rows) => {
+      const scores = rows.flatMap((x, index) => rows.slice(index + 1).map((y) => links.get(pairKey(x, y))!))
+      return {
+        rows: rows.sort((a, b) => a - b).map((row) => row + 1),
+        similarity: mean(scores),
+        sample: rows.slice(0, 5).map((row) => Object.fromEntries(columns.map((c) => [c, String(data[row][c] ?? "")]))),
+      }
+    })
+    .sort((a, b) => b.rows.length - a.rows.length || b.similarity - a.similarity)
+}
+
+export function nearDuplicateIssue(
+  clusters: DuplicateCluster[],
+  totalRows: number,
+  threshold: number,
+): DataIssue | undefined {
+  if (clusters.length === 0) return undefined
+
+  const rowsInClusters = clusters.reduce((sum, cluster) => sum + cluster.rows.length, 0)
+  const redundant = rowsInClusters - clusters.length
+  const percentage = (redundant / totalRows) * 100
+
+  return {
+    column: Object.keys(clusters[0].sample[0]).join(", "),
+    severity: percentage > 5 ? "Critical" : "Warning",
+    type: "Near Duplicates",
+    description: `${clusters.length} clusters of likely duplicate records (${rowsInClusters} rows, similarity ≥ ${Math.round(threshold * 100)}%)`,
+    count: redundant,
+    percentage,
+    explanation: "These records differ only by typos, spelling variants, casing or whitespace, which usually means the same entity was entered more than once.",
+    recommendation: "Review the clusters, merge each into a single golden record and add fuzzy matching to the entry or ingestion process.",
+    clusters: clusters.slice(0, MAX_CLUSTERS),
+    rowReferences: rowReferences(clusters.flatMap((cluster) => cluster.rows.map((row) => row - 1))),
+  }
+}
@@ -0,0 +1,247 @@
+import { isMissingValue, isNumericType } from "@/lib/infer"
+import { exampleValues, indicesWhere, rowReferences } from "@/lib/references"
+import type { ColumnType, DataIssue, OutlierMethod } from "@/lib/types"
+
+export interface OutlierOptions {
+  // "auto" picks a method per column from its distribution shape
+  method?: OutlierMethod | "auto"
+  // Per-column overrides of `method`
+  columnMethods?: Record<string, OutlierMethod>
+  iqrMultiplier?: number
+  multivariate?: boolean
+}
+
+export const OUTLIER_METHODS: OutlierMethod[] = ["iqr", "zscore", "mad", "log-iqr"]
+export const DEFAULT_IQR_MULTIPLIER = 1.5
+
+export const OUTLIER_METHOD_LABELS: Record<OutlierMethod, string> = {
+  iqr: "IQR",
+  zscore: "z-score",
+  mad: "modified z-score (MAD)",
+  "log-iqr": "log-transformed IQR",
+}
+
+const Z_LIMIT = 3
+const MODIFIED_Z_LIMIT = 3.5
+// Tail probability for the multivariate cut-off; 3.09 is the matching standard normal quantile
+const CHI_SQUARE_Z = 3.09
+const MAX_MULTIVARIATE_COLUMNS = 10
+const MAX_ROWS_LISTED = 10
+
+interface Bounds {
+  lower: number
+  upper: number
+}
+
+// Linear interpolation between closest ranks, as in numpy's default
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q
+  const base = Math.floor(position)
+  const next = sorted[Math.min(base + 1, sorted.length - 1)]
+  return sorted[base] + (position - base) * (next - sorted[base])
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+function standardDeviation(values: number[], center = mean(values)): number {
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - center) ** 2, 0) / (values.length - 1))
+}
+
+function skewness(values: number[]): number {
+  const center = mean(values)
+  const sd = standardDeviation(values, center)
+  if (sd === 0) return 0
+  return values.reduce((sum, v) => sum + ((v - center) / sd) ** 3, 0) / values.length
+}
+
+function excessKurtosis(values: number[]): number {
+  const center = mean(values)
+  const sd = standardDeviation(values, center)
+  if (sd === 0) return 0
+  return values.reduce((sum, v) => sum + ((v - center) / sd) ** 4, 0) / values.length - 3
+}
+
+/**
+ * Picks a method from the distribution shape: z-scores for roughly normal columns, a log-scale IQR for
+ * strictly positive right-skewed ones (revenue, durations) and the MAD-based modified z-score otherwise.
+ */
+export function selectOutlierMethod(values: number[]): OutlierMethod {
+  if (values.length < 3) return "iqr"
+  const skew = skewness(values)
+  if (skew > 1 && values.every((v) => v > 0)) return "log-iqr"
+  if (Math.abs(skew) < 0.5 && excessKurtosis(values) < 1) return "zscore"
+  return "mad"
+}
+
+function iqrBounds(sorted: number[], multiplier: number): Bounds {
+  const q1 = quantile(sorted, 0.25)
+  const q3 = quantile(sorted, 0.75)
+  const iqr = q3 - q1
+  return { lower: q1 - multiplier * iqr, upper: q3 + multiplier * iqr }
+}
+
+function outlierBounds(sorted: number[], method: OutlierMethod, multiplier: number): Bounds | undefined {
+  switch (method) {
+    case "iqr":
+      return iqrBounds(sorted, multiplier)
+
+    case "log-iqr": {
+      if (sorted[0] <= 0) return undefined
+      const bounds = iqrBounds(sorted.map(Math.log), multiplier)
+      return { lower: Math.exp(bounds.lower), upper: Math.exp(bounds.upper) }
+    }
+
+    case "zscore": {
+      const center = mean(sorted)
+      const sd = standardDeviation(sorted, center)
+      return { lower: center - Z_LIMIT * sd, upper: center + Z_LIMIT * sd }
+    }
+
+    case "mad": {
+      const center = quantile(sorted, 0.5)
+      const deviations = sorted.map((v) => Math.abs(v - center)).sort((a, b) => a - b)
+      const mad = quantile(deviations, 0.5)
+      if (mad === 0) return undefined
+      // Modified z-score of Iglewicz and Hoaglin: 0.6745 * (x - median) / MAD
+      const spread = (MODIFIED_Z_LIMIT * mad) / 0.6745
+      return { lower: center - spread, upper: center + spread }
+    }
+  }
+}
+
+function formatBound(value: number): string {
+  return Number(value.toPrecision(4)).toLocaleString("en-US")
+}
+
+export function outlierIssue(
+  columnType: ColumnType,
+  rawValues: unknown[],
+  { method = "auto", columnMethods = {}, iqrMultiplier = DEFAULT_IQR_MULTIPLIER }: OutlierOptions = {},
+): DataIssue | undefined {
+  const { column, type } = columnType
+  // Identifiers and codes have no meaningful distribution
+  if (!isNumericType(type)) return undefined
+
+  const numbers = rawValues.map((v) => (isMissingValue(v) ? NaN : Number(String(v).trim())))
+  const values = numbers.filter((v) => !isNaN(v))
+  if (values.length === 0) return undefined
+
+  const sorted = [...values].sort((a, b) => a - b)
+  const requested = (columnMethods[column] as OutlierMethod | undefined) || method
+  const selected = requested === "auto" ? selectOutlierMethod(values) : requested
+  const bounds = outlierBounds(sorted, selected, iqrMultiplier)
+  if (!bounds) return undefined
+
+  const outlierRows = indicesWhere(numbers, (v) => v < bounds.lower || v > bounds.upper)
+  const outliers = outlierRows.map((index) => numbers[index])
+  if (outliers.length === 0) return undefined
+
+  const label = OUTLIER_METHOD_LABELS[selected]
+  const percentage = (outliers.length / values.length) * 100
+  return {
+    column,
+    severity: percentage > 10 ? "Warning" : "Info",
+    type: "Outliers",
+    description: `${outliers.length} potential outliers outside [${formatBound(bounds.lower)}, ${formatBound(bounds.upper)}] by ${label}`,
+    count: outliers.length,
+    percentage,
+    explanation: `Statistical outliers in ${column} may indicate data entry errors or genuine extreme values. ${label} was ${requested === "auto" ? "chosen from the shape of the distribution" : "requested"}${selected === "iqr" || selected === "log-iqr" ? ` with a ${iqrMultiplier}× multiplier` : ""}.`,
+    recommendation: `Review outlier values in ${column} to determine if they are valid or require correction.`,
+    outlierMethod: selected,
+    bounds,
+    rowReferences: rowReferences(outlierRows),
+    examples: exampleValues([...outliers].sort((a, b) => Math.abs(b) - Math.abs(a))),
+  }
+}
+
+// Inverts a square matrix by Gauss-Jordan elimination; undefined when it is singular
+function invert(matrix: number[][]): number[][] | undefined {
+  const size = matrix.length
+  const augmented = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))])
+
+  for (let col = 0; col < size; col++) {
+    let pivot = col
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(augmented[row][col]) > Math.abs(augmented[pivot][col])) pivot = row
+    }
+    if (Math.abs(augmented[pivot][col]) < 1e-12) return undefined
+    const swapped = augmented[pivot]
+    augmented[pivot] = augmented[col]
+    augmented[col] = swapped
+
+    const divisor = augmented[col][col]
+    augmented[col] = augmented[col].map((v) => v / divisor)
+    for (let row = 0; row < size; row++) {
+      if (row === col) continue
+      const factor = augmented[row][col]
+      augmented[row] = augmented[row].map((v, j) => v - factor * augmented[col][j])
+    }
+  }
+  return augmented.map((row) => row.slice(size))
+}
+
+// Wilson-Hilferty approximation of the chi-square quantile
+function chiSquareQuantile(degrees: number, z: number): number {
+  const term = 2 / (9 * degrees)
+  return degrees * (1 - term + z * Math.sqrt(term)) ** 3
+}
+
+/**
+ * Flags rows whose combination of numeric values is unusual even when each value is ordinary on its own, using
+ * the squared Mahalanobis distance against a chi-square cut-off. Only rows with every numeric column present count.
+ */
+export function multivariateOutlierIssue(data: Record<string, any>[], columnTypes: ColumnType[]): DataIssue | undefined {
+  const columns = columnTypes
+    .filter(({ type }) => isNumericType(type))
+    .map(({ column }) => column)
+    .slice(0, MAX_MULTIVARIATE_COLUMNS)
+  if (columns.length < 2) return undefined
+
+  const rows: { index: number; vector: number[] }[] = []
+  data.forEach((row, index) => {
+    const vector = columns.map((column) => (isMissingValue(row[column]) ? NaN : Number(String(row[column]).trim())))
+    if (vector.every((v) => !isNaN(v))) rows.push({ index, vector })
+  })
+  // Too few complete rows for a stable covariance estimate
+  if (rows.length < columns.length * 5) return undefined
+
+  // Standardizing first keeps the matrix well conditioned when columns differ by orders of magnitude
+  const means = columns.map((_, j) => mean(rows.map(({ vector }) => vector[j])))
+  const deviations = columns.map((_, j) => standardDeviation(rows.map(({ vector }) => vector[j]), means[j]))
+  if (deviations.some((sd) => sd === 0)) return undefined
+  const standardized = rows.map(({ vector }) => vector.map((v, j) => (v - means[j]) / deviations[j]))
+
+  const correlation = columns.map((_, i) =>
+    columns.map((_, j) => standardized.reduce((sum, z) => sum + z[i] * z[j], 0) / (rows.length - 1)),
+  )
+  const inverse = invert(correlation)
+  if (!inverse) return undefined
+
+  const cutoff = chiSquareQuantile(columns.length, CHI_SQUARE_Z)
+  const outliers = rows.filter((_, index) => {
+    const z = standardized[index]
+    const distance = z.reduce((sum, zi, i) => sum + zi * z.reduce((inner, zj, j) => inner + inverse[i][j] * zj, 0), 0)
+    return distance > cutoff
+  })
+  if (outliers.length === 0) return undefined
+
+  const percentage = (outliers.length / rows.length) * 100
+  const references = rowReferences(outliers.map(({ index }) => index))
+  const listed = references.rows.slice(0, MAX_ROWS_LISTED)
+
+  return {
+    column: columns.join(", "),
+    severity: percentage > 5 ? "Warning" : "Info",
+    type: "Multivariate Outliers",
+    description: `${outliers.length} rows have an unusual combination of numeric values (rows ${listed.join(", ")}${outliers.length > listed.length ? ", …" : ""})`,
+    count: outliers.length,
+    percentage,
+    explanation: `These rows lie far from the joint distribution of ${columns.join(", ")} (squared Mahalanobis distance above ${formatBound(cutoff)}, the 99.9th percentile of a chi-square with ${columns.length} degrees of freedom), even if no single value stands out.`,
+    recommendation: "Check these rows for unit mix-ups, swapped fields or values entered against the wrong record.",
+    outlierMethod: "mahalanobis",
+    bounds: { lower: 0, upper: cutoff },
+    rowReferences: references,
+  }
+}
@@ -0,0 +1,87 @@
+import { isMissingValue, isNumericType } from "@/lib/infer"
+import { range } from "@/lib/stats"
+import type { ColumnProfile, ColumnType, HistogramBin, NumericSummary } from "@/lib/types"
+
+const MAX_BINS = 20
+const TOP_VALUES = 10
+
+/**
+ * Equal-width bins, Sturges' rule for the bin count. Integers spanning fewer than MAX_BINS values get one bin each
+ * so string lengths and small counts read as a bar chart of exact values.
+ */
+export function histogram(values: number[]): HistogramBin[] {
+  if (values.length === 0) return []
+  const { min, max } = range(values)
+  if (min === max) return [{ start: min, end: max, count: values.length }]
+
+  const unitBins = values.every(Number.isInteger) && max - min + 1 <= MAX_BINS
+  const binCount = unitBins ? max - min + 1 : Math.min(MAX_BINS, Math.ceil(Math.log2(values.length)) + 1)
+  const width = unitBins ? 1 : (max - min) / binCount
+
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    start: min + i * width,
+    end: min + (i + 1) * width,
+    count: 0,
+  }))
+  values.forEach((v) => bins[Math.min(binCount - 1, Math.floor((v - min) / width))].count++)
+  return bins
+}
+
+function summarize(values: number[]): NumericSummary {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length
+  const variance = values.length > 1 ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1) : 0
+
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean,
+    median: sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2,
+    std: Math.sqrt(variance),
+  }
+}
+
+export function profileColumn(columnType: ColumnType, rawValues: unknown[]): ColumnProfile {
+  const { column, type } = columnType
+  const values = rawValues.filter((v) => !isMissingValue(v)).map((v) => String(v))
+
+  const counts = new Map<string, number>()
+  values.forEach((value) => counts.set(value, (counts.get(value) || 0) + 1))
+  const topValues = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_VALUES)
+    .map(([value, count]) => ({ value, count }))
+
+  const lengths = values.map((value) => value.length)
+  const lengthRange = range(lengths)
+
+  const profile: ColumnProfile = {
+    column,
+    type,
+    count: values.length,
+    missing: rawValues.length - values.length,
+    distinct: counts.size,
+    topValues,
+    lengths: {
+      min: lengths.length ? lengthRange.min : 0,
+      max: lengths.length ? lengthRange.max : 0,
+      mean: lengths.length ? lengths.reduce((sum, n) => sum + n, 0) / lengths.length : 0,
+      histogram: histogram(lengths),
+    },
+  }
+
+  if (isNumericType(type)) {
+    const numbers = values.map((value) => Number(value.trim())).filter(Number.isFinite)
+    if (numbers.length > 0) {
+      profile.stats = summarize(numbers)
+      profile.histogram = histogram(numbers)
+    }
+  }
+
+  return profile
+}
+
+export function profileColumns(data: Record<string, any>[], columnTypes: ColumnType[]): ColumnProfile[] {
+  return columnTypes.map((columnType) => profileColumn(columnType, data.map((row) => row[columnType.column])))
+}
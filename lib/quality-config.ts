@@ -0,0 +1,84 @@
+import { z } from "zod"
+import { QUALITY_DIMENSIONS, type ScoringWeights } from "@/lib/scoring"
+import type { DataIssue, QualityDimension } from "@/lib/types"
+
+const percentage = z.number().min(0).max(100)
+
+export const severityThresholdsSchema = z
+  .object({
+    // Percent of rows affected above which an issue becomes a Warning, and a Critical; no `critical` means never
+    warning: percentage,
+    critical: percentage.optional(),
+  })
+  .refine(({ warning, critical }) => critical === undefined || critical >= warning, {
+    message: "Critical must not be below warning",
+    path: ["critical"],
+  })
+
+export const COLUMN_CRITICALITIES = ["low", "normal", "high"] as const
+
+export const qualityConfigSchema = z.object({
+  // Keyed by issue type, e.g. "Missing Values"
+  thresholds: z.record(severityThresholdsSchema).optional(),
+  // Column name, then issue type; takes precedence over `thresholds`
+  columnThresholds: z.record(z.record(severityThresholdsSchema)).optional(),
+  criticality: z.record(z.enum(COLUMN_CRITICALITIES)).optional(),
+  weights: z.record(z.enum(QUALITY_DIMENSIONS as [QualityDimension, ...QualityDimension[]]), z.number().min(0)).optional(),
+})
+
+export type SeverityThresholds = z.infer<typeof severityThresholdsSchema>
+export type ColumnCriticality = (typeof COLUMN_CRITICALITIES)[number]
+export type QualityConfig = z.infer<typeof qualityConfigSchema>
+
+// The cut-offs each check applies when nothing is configured
+export const DEFAULT_SEVERITY_THRESHOLDS: Record<string, SeverityThresholds> = {
+  "Missing Values": { warning: 5, critical: 20 },
+  "Disguised Missing Values": { warning: 5, critical: 20 },
+  "Invalid Format": { warning: 5, critical: 20 },
+  "Mixed Types": { warning: 5 },
+  "Inconsistent Categories": { warning: 5 },
+  Outliers: { warning: 10 },
+  "Duplicate Rows": { warning: 0, critical: 1 },
+  "Near Duplicates": { warning: 0, critical: 5 },
+}
+
+export const CRITICALITY_WEIGHTS: Record<ColumnCriticality, number> = { low: 0.5, normal: 1, high: 2 }
+
+const SEVERITIES: DataIssue["severity"][] = ["Info", "Warning", "Critical"]
+// How many severity levels an issue moves on a column of this criticality
+const CRITICALITY_SHIFT: Record<ColumnCriticality, number> = { low: -1, normal: 0, high: 1 }
+
+export function gradeSeverity(percentage: number, { warning, critical }: SeverityThresholds): DataIssue["severity"] {
+  if (critical !== undefined && percentage > critical) return "Critical"
+  return percentage > warning ? "Warning" : "Info"
+}
+
+// An issue spanning several columns ("a, b" or "a + b") follows the most critical of them
+function issueCriticality(column: string, criticality: QualityConfig["criticality"] = {}): ColumnCriticality {
+  const levels = [column, ...column.split(/, | \+ /)].map((name) => criticality[name] ?? "normal")
+  return levels.includes("high") ? "high" : levels.includes("low") ? "low" : "normal"
+}
+
+/**
+ * Re-grades issues whose check has configured thresholds, against the share of rows they affect, then moves issues
+ * on high-criticality columns one level up and on low-criticality columns one level down. Checks without a
+ * configured threshold keep the severity they were given, so an empty config changes nothing.
+ */
+export function applySeverityThresholds(issues: DataIssue[], config: QualityConfig = {}): DataIssue[] {
+  return issues.map((issue) => {
+    const thresholds = config.columnThresholds?.[issue.column]?.[issue.type] ?? config.thresholds?.[issue.type]
+    const graded = thresholds ? gradeSeverity(issue.percentage, thresholds) : issue.severity
+    const shift = CRITICALITY_SHIFT[issueCriticality(issue.column, config.criticality)]
+    const severity = SEVERITIES[Math.min(SEVERITIES.length - 1, Math.max(0, SEVERITIES.indexOf(graded) + shift))]
+    return severity === issue.severity ? issue : { ...issue, severity }
+  })
+}
+
+export function scoringWeights(config: QualityConfig = {}): ScoringWeights {
+  return {
+    dimensions: config.weights,
+    columns: Object.fromEntries(
+      Object.entries(config.criticality || {}).map(([column, criticality]) => [column, CRITICALITY_WEIGHTS[criticality]]),
+    ),
+  }
+}
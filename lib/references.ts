@@ -0,0 +1,38 @@
+import type { DataIssue, RowReferences } from "@/lib/types"
+
+// Issues in a response reference at most this many rows; `total` keeps the full count
+export const MAX_ROW_REFERENCES = 50
+// Rows of the preview grid sent per response; later pages are requested with `rowOffset`
+export const GRID_PAGE_SIZE = 1000
+const MAX_EXAMPLE_VALUES = 5
+
+// Takes 0-based positions in the dataset and returns the 1-based row numbers shown to users
+export function rowReferences(indices: number[]): RowReferences {
+  return { rows: indices.map((index) => index + 1), total: indices.length }
+}
+
+// Analysis keeps every referenced row so the grid can highlight them all; the issue itself only carries a sample
+export function capRowReferences(issue: DataIssue): DataIssue {
+  if (!issue.rowReferences || issue.rowReferences.rows.length <= MAX_ROW_REFERENCES) return issue
+  const rows = issue.rowReferences.rows.slice(0, MAX_ROW_REFERENCES)
+  return { ...issue, rowReferences: { ...issue.rowReferences, rows } }
+}
+
+// Issues name one column, a combination ("a, b" or "a + b"), or the whole row
+export function issueColumns(issue: DataIssue, columns: string[]): string[] {
+  if (issue.column === "(all columns)") return columns
+  if (columns.includes(issue.column)) return [issue.column]
+  return issue.column.split(/, | \+ /).filter((column) => columns.includes(column))
+}
+
+export function indicesWhere<T>(items: T[], predicate: (item: T, index: number) => boolean): number[] {
+  const indices: number[] = []
+  items.forEach((item, index) => {
+    if (predicate(item, index)) indices.push(index)
+  })
+  return indices
+}
+
+export function exampleValues(values: unknown[]): string[] {
+  return Array.from(new Set(values.map((value) => String(value)))).slice(0, MAX_EXAMPLE_VALUES)
+}
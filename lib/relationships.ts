@@ -0,0 +1,287 @@
+import { isIdentifierName, isMissingValue } from "@/lib/infer"
+import { exampleValues, rowReferences } from "@/lib/references"
+import type { ColumnType, DataIssue, SemanticType, TableRelationship } from "@/lib/types"
+
+export interface Table {
+  name: string
+  columns: string[]
+  rows: string[][]
+  columnTypes: ColumnType[]
+}
+
+const KEY_TYPES: SemanticType[] = ["identifier", "integer", "text", "categorical"]
+// A parent key may hold a few duplicates (reported as a surprise) but must be mostly unique to be a key at all
+const MIN_PARENT_UNIQUENESS = 0.95
+// Matching names need only modest overlap, so badly broken links are still found and reported
+const MIN_NAMED_COVERAGE = 0.5
+// Without a name match the values have to speak for themselves
+const MIN_UNNAMED_COVERAGE = 0.95
+const MIN_UNNAMED_DISTINCT = 10
+const INTEGER_PATTERN = /^[+-]?\d+$/
+// Children this close to one per parent are probably meant to be one-to-one
+const NEAR_ONE_TO_ONE = 0.98
+const MIN_FAN_OUT_PARENTS = 10
+
+interface KeyColumn {
+  table: Table
+  column: string
+  type: SemanticType
+  values: (string | undefined)[]
+  distinct: Set<string>
+  filled: number
+  // Every value is a whole number, like the surrogate keys most tables number their rows with
+  numeric: boolean
+}
+
+function keyColumns(table: Table): KeyColumn[] {
+  return table.columnTypes
+    .filter(({ type }) => KEY_TYPES.includes(type))
+    .map(({ column, type }) => {
+      const index = table.columns.indexOf(column)
+      const values = table.rows.map((row) => (isMissingValue(row[index]) ? undefined : row[index].trim()))
+      const filled = values.filter((value) => value !== undefined) as string[]
+      const numeric = filled.every((value) => INTEGER_PATTERN.test(value))
+      return { table, column, type, values, distinct: new Set(filled), filled: filled.length, numeric }
+    })
+    .filter(({ filled }) => filled > 0)
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "")
+}
+
+// Good enough for table names: customers → customer, categories → category, addresses → address
+function singular(name: string): string {
+  const normalized = normalizeName(name)
+  if (normalized.endsWith("ies")) return `${normalized.slice(0, -3)}y`
+  if (normalized.endsWith("sses")) return normalized.slice(0, -2)
+  if (normalized.endsWith("s") && !normalized.endsWith("ss")) return normalized.slice(0, -1)
+  return normalized
+}
+
+// orders.customer_id matches customers.customer_id, customers.id, or customers.customer_code via `customer`
+function namesMatch(child: KeyColumn, parent: KeyColumn): boolean {
+  const childName = normalizeName(child.column)
+  const parentName = normalizeName(parent.column)
+  const entity = singular(parent.table.name)
+  if (childName === parentName) return parentName !== "id" && isIdentifierName(parent.column)
+  return childName === `${entity}${parentName}` || (["id", "key", "code"].includes(parentName) && childName === entity)
+}
+
+function coverage(child: KeyColumn, parent: KeyColumn): number {
+  let found = 0
+  child.distinct.forEach((value) => {
+    if (parent.distinct.has(value)) found++
+  })
+  return found / child.distinct.size
+}
+
+interface Link {
+  child: KeyColumn
+  parent: KeyColumn
+  inferredBy: TableRelationship["inferredBy"]
+  coverage: number
+}
+
+/**
+ * Infers foreign keys between tables from matching column names and overlapping values. Each column links to at most
+ * one parent, preferring a name match and then the best coverage.
+ */
+function inferLinks(tables: Table[]): Link[] {
+  const columns = tables.map(keyColumns)
+  const parents = columns.flat().filter(({ distinct, filled }) => distinct.size / filled >= MIN_PARENT_UNIQUENESS)
+  const links: Link[] = []
+
+  columns.flat().forEach((child) => {
+    let best: Link | undefined
+    parents
+      .filter((parent) => parent.table !== child.table)
+      .forEach((parent) => {
+        const named = namesMatch(child, parent)
+        // Row numbers and short code lists overlap by chance
+        if (!named && (child.numeric || child.distinct.size < MIN_UNNAMED_DISTINCT)) return
+        const share = coverage(child, parent)
+        if (share < (named ? MIN_NAMED_COVERAGE : MIN_UNNAMED_COVERAGE)) return
+        const link: Link = { child, parent, inferredBy: named ? "name" : "values", coverage: share }
+        const better =
+          !best ||
+          (named && best.inferredBy === "values") ||
+          (named === (best.inferredBy === "name") && share > best.coverage)
+        if (better) best = link
+      })
+    if (best) links.push(best)
+  })
+
+  // Two key columns can each look like the other's parent; the side holding more keys is the parent, and on a tie
+  // the table uploaded first
+  const outranks = (a: KeyColumn, b: KeyColumn) =>
+    a.distinct.size > b.distinct.size ||
+    (a.distinct.size === b.distinct.size && tables.indexOf(a.table) < tables.indexOf(b.table))
+
+  return links.filter(
+    ({ child, parent }) =>
+      !links.some((other) => other.child === parent && other.parent === child && outranks(child, parent)),
+  )
+}
+
+function qualified(column: KeyColumn): string {
+  return `${column.table.name}.${column.column}`
+}
+
+function indicesOf(values: (string | undefined)[], predicate: (value: string) => boolean): number[] {
+  const indices: number[] = []
+  values.forEach((value, index) => {
+    if (value !== undefined && predicate(value)) indices.push(index)
+  })
+  return indices
+}
+
+// Positions of repeats after the first occurrence of each value
+function repeatedIndices(values: (string | undefined)[]): number[] {
+  const seen = new Set<string>()
+  return indicesOf(values, (value) => {
+    if (seen.has(value)) return true
+    seen.add(value)
+    return false
+  })
+}
+
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q
+  const base = Math.floor(position)
+  const rest = position - base
+  return sorted[base + 1] !== undefined ? sorted[base] + rest * (sorted[base + 1] - sorted[base]) : sorted[base]
+}
+
+function linkIssues({ child, parent }: Link): DataIssue[] {
+  const issues: DataIssue[] = []
+  const childName = qualified(child)
+  const parentName = qualified(parent)
+
+  const orphans = indicesOf(child.values, (value) => !parent.distinct.has(value))
+  if (orphans.length > 0) {
+    const percentage = (orphans.length / child.table.rows.length) * 100
+    issues.push({
+      column: childName,
+      table: child.table.name,
+      severity: percentage > 5 ? "Critical" : "Warning",
+      type: "Orphan Keys",
+      description: `${orphans.length} ${child.table.name} rows reference a ${parentName} that doesn't exist`,
+      count: orphans.length,
+      percentage,
+      explanation: `These ${child.table.name} rows point at ${parent.table.name} records that are missing, so inner joins drop them and outer joins fill them with nulls.`,
+      recommendation: `Load the missing ${parent.table.name} records, or correct the ${child.column} values if they were mistyped.`,
+      rowReferences: rowReferences(orphans),
+      examples: exampleValues(orphans.map((index) => child.values[index])),
+    })
+  }
+
+  const unused = indicesOf(parent.values, (value) => !child.distinct.has(value))
+  if (unused.length > 0) {
+    issues.push({
+      column: parentName,
+      table: parent.table.name,
+      severity: "Info",
+      type: "Unused Parent Keys",
+      description: `${unused.length} ${parent.table.name} rows are never referenced by ${childName}`,
+      count: unused.length,
+      percentage: (unused.length / parent.table.rows.length) * 100,
+      explanation: `Unreferenced ${parent.table.name} records are often legitimate (a customer with no orders yet), but a large share can mean the ${child.table.name} extract is incomplete.`,
+      recommendation: `Check that ${child.table.name} covers the same period and scope as ${parent.table.name}.`,
+      rowReferences: rowReferences(unused),
+      examples: exampleValues(unused.map((index) => parent.values[index])),
+    })
+  }
+
+  const duplicateParents = repeatedIndices(parent.values)
+  if (duplicateParents.length > 0) {
+    issues.push({
+      column: parentName,
+      table: parent.table.name,
+      severity: "Warning",
+      type: "Cardinality Surprise",
+      description: `${duplicateParents.length} duplicate ${parent.column} values in ${parent.table.name}, so matching ${child.table.name} rows join to several parents`,
+      count: duplicateParents.length,
+      percentage: (duplicateParents.length / parent.table.rows.length) * 100,
+      explanation: `${parentName} is referenced as a key, but some of its values repeat, which silently multiplies rows in every join through it.`,
+      recommendation: `Deduplicate ${parent.table.name} on ${parent.column} before joining.`,
+      rowReferences: rowReferences(duplicateParents),
+      examples: exampleValues(duplicateParents.map((index) => parent.values[index])),
+    })
+  }
+
+  const uniqueness = child.distinct.size / child.filled
+  const repeatedChildren = repeatedIndices(child.values)
+  if (uniqueness >= NEAR_ONE_TO_ONE && repeatedChildren.length > 0) {
+    issues.push({
+      column: childName,
+      table: child.table.name,
+      severity: "Warning",
+      type: "Cardinality Surprise",
+      description: `${childName} is one-to-one with ${parentName} except for ${repeatedChildren.length} repeated values`,
+      count: repeatedChildren.length,
+      percentage: (repeatedChildren.length / child.table.rows.length) * 100,
+      explanation: `Almost every ${parent.table.name} record has exactly one ${child.table.name} row, so the few that have several are likely duplicates.`,
+      recommendation: `Check whether the repeated ${child.column} rows are double loads of the same record.`,
+      rowReferences: rowReferences(repeatedChildren),
+      examples: exampleValues(repeatedChildren.map((index) => child.values[index])),
+    })
+  } else if (parent.distinct.size >= MIN_FAN_OUT_PARENTS) {
+    // A parent referenced far more often than the rest is often a placeholder key such as 0 or "UNKNOWN"
+    const counts = new Map<string, number>()
+    child.values.forEach((value) => {
+      if (value !== undefined && parent.distinct.has(value)) counts.set(value, (counts.get(value) || 0) + 1)
+    })
+    const sorted = Array.from(counts.values()).sort((a, b) => a - b)
+    if (sorted.length >= MIN_FAN_OUT_PARENTS) {
+      const q1 = quantile(sorted, 0.25)
+      const q3 = quantile(sorted, 0.75)
+      const upper = q3 + 3 * Math.max(q3 - q1, 1)
+      const heavy = new Set(Array.from(counts.entries()).filter(([, n]) => n > upper).map(([value]) => value))
+      if (heavy.size > 0) {
+        const rows = indicesOf(child.values, (value) => heavy.has(value))
+        issues.push({
+          column: childName,
+          table: child.table.name,
+          severity: "Warning",
+          type: "Cardinality Surprise",
+          description: `${heavy.size} ${parent.table.name} keys are referenced by unusually many ${child.table.name} rows (up to ${sorted[sorted.length - 1]}, median ${quantile(sorted, 0.5)})`,
+          count: rows.length,
+          percentage: (rows.length / child.table.rows.length) * 100,
+          explanation: `Most ${parent.table.name} records have at most ${Math.floor(upper)} ${child.table.name} rows; keys far above that are often defaults or placeholders rather than real ${parent.table.name} records.`,
+          recommendation: `Check whether ${Array.from(heavy).slice(0, 3).join(", ")} are real ${parent.table.name} records or stand-ins for unknown values.`,
+          rowReferences: rowReferences(rows),
+          examples: exampleValues(Array.from(heavy)),
+        })
+      }
+    }
+  }
+
+  return issues
+}
+
+function relationship(link: Link): TableRelationship {
+  const { child, parent } = link
+  const parentUnique = parent.distinct.size === parent.filled
+  const childUnique = child.distinct.size === child.filled
+  return {
+    childTable: child.table.name,
+    childColumn: child.column,
+    parentTable: parent.table.name,
+    parentColumn: parent.column,
+    inferredBy: link.inferredBy,
+    coverage: link.coverage,
+    cardinality: !parentUnique ? "many-to-many" : childUnique ? "one-to-one" : "one-to-many",
+    orphanRows: indicesOf(child.values, (value) => !parent.distinct.has(value)).length,
+    unusedParents: indicesOf(parent.values, (value) => !child.distinct.has(value)).length,
+  }
+}
+
+/**
+ * Infers the foreign keys between a set of tables and reports orphan keys, unused parents and cardinality
+ * surprises across them.
+ */
+export function relationshipAnalysis(tables: Table[]): { relationships: TableRelationship[]; issues: DataIssue[] } {
+  const links = inferLinks(tables)
+  return { relationships: links.map(relationship), issues: links.flatMap(linkIssues) }
+}
@@ -0,0 +1,406 @@
+import { parse as parseYAML } from "yaml"
+import { z } from "zod"
+import { parseDate } from "@/lib/dates"
+import { evaluateExpression, expressionColumns, parseExpression } from "@/lib/expression"
+import { isMissingValue } from "@/lib/infer"
+import { exampleValues, indicesWhere, rowReferences } from "@/lib/references"
+import type { DataIssue } from "@/lib/types"
+
+export const COMPARISON_OPERATORS = ["==", "!=", ">", ">=", "<", "<="] as const
+
+const scalar = z.union([z.string(), z.number(), z.boolean()])
+
+// `matches` patterns run against every row on the server, so they have to be cheap to evaluate
+const MAX_PATTERN_LENGTH = 200
+
+/**
+ * Spots the shapes that make a backtracking regex engine take exponential time: a repeated group that itself
+ * repeats something, as in `(a+)+` or `(\w*\s?)*`, and backreferences.
+ */
+function isSlowPattern(pattern: string): boolean {
+  if (/\\[1-9]|\\k</.test(pattern)) return true
+  // One entry per open group: whether anything inside it repeats
+  const groups = [false]
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === "\\") {
+      i++
+    } else if (char === "[") {
+      // Quantifier characters inside a class are literals
+      for (i++; i < pattern.length && pattern[i] !== "]"; i++) if (pattern[i] === "\\") i++
+    } else if (char === "(") {
+      groups.push(false)
+    } else if (char === ")") {
+      const repeatsInside = groups.length > 1 ? groups.pop()! : false
+      const repeated = ["*", "+", "{"].includes(pattern[i + 1])
+      if (repeatsInside && repeated) return true
+      if (repeatsInside || repeated) groups[groups.length - 1] = true
+    } else if (char === "*" || char === "+" || char === "{") {
+      groups[groups.length - 1] = true
+    }
+  }
+  return false
+}
+
+// Limits a rule to the rows where another column meets a condition, e.g. `order_total > 0`
+const conditionSchema = z
+  .object({
+    column: z.string().min(1),
+    op: z.enum([...COMPARISON_OPERATORS, "is_null", "not_null"]),
+    value: scalar.optional(),
+  })
+  .refine(({ op, value }) => op === "is_null" || op === "not_null" || value !== undefined, {
+    message: "A comparison needs a value",
+    path: ["value"],
+  })
+
+const ruleBase = {
+  id: z.string().min(1),
+  severity: z.enum(["Critical", "Warning", "Info"]).optional(),
+  // Why the rule exists; shown as the issue's explanation
+  description: z.string().optional(),
+  when: conditionSchema.optional(),
+}
+
+export const ruleSchema = z
+  .discriminatedUnion("check", [
+    z.object({ ...ruleBase, check: z.literal("not_null"), column: z.string().min(1) }),
+    z.object({
+      ...ruleBase,
+      check: z.literal("between"),
+      column: z.string().min(1),
+      min: scalar.optional(),
+      max: scalar.optional(),
+    }),
+    z.object({ ...ruleBase, check: z.literal("in"), column: z.string().min(1), values: z.array(scalar).min(1) }),
+    z.object({
+      ...ruleBase,
+      check: z.literal("unique"),
+      // Several columns are unique as a combination
+      column: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]),
+    }),
+    z.object({
+      ...ruleBase,
+      check: z.literal("compare"),
+      column: z.string().min(1),
+      op: z.enum(COMPARISON_OPERATORS),
+      // Compared against another column in the same row, or against a fixed value
+      other: z.string().min(1).optional(),
+      value: scalar.optional(),
+    }),
+    z.object({ ...ruleBase, check: z.literal("matches"), column: z.string().min(1), pattern: z.string().min(1) }),
+    z.object({
+      ...ruleBase,
+      check: z.literal("formula"),
+      column: z.string().min(1),
+      op: z.enum(COMPARISON_OPERATORS).default("=="),
+      // Arithmetic over other columns of the row, e.g. `quantity * unit_price`
+      expression: z.string().min(1),
+      // Largest difference still counted as equal, e.g. 0.01 for amounts rounded to cents
+      tolerance: z.number().min(0).optional(),
+    }),
+  ])
+  .superRefine((rule, ctx) => {
+    if (rule.check === "between" && rule.min === undefined && rule.max === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Set min, max or both", path: ["min"] })
+    }
+    if (rule.check === "compare" && (rule.other === undefined) === (rule.value === undefined)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Set exactly one of other or value", path: ["other"] })
+    }
+    if (rule.check === "matches") {
+      try {
+        new RegExp(rule.pattern)
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Not a valid regular expression", path: ["pattern"] })
+        return
+      }
+      if (rule.pattern.length > MAX_PATTERN_LENGTH) {
+        const message = `Patterns are limited to ${MAX_PATTERN_LENGTH} characters`
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ["pattern"] })
+      } else if (isSlowPattern(rule.pattern)) {
+        const message = "Nested repetition such as (a+)+ and backreferences can take exponential time; simplify the pattern"
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ["pattern"] })
+      }
+    }
+    if (rule.check === "formula") {
+      try {
+        parseExpression(rule.expression)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Not a valid expression"
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ["expression"] })
+      }
+    }
+  })
+
+export type QualityRule = z.infer<typeof ruleSchema>
+type Condition = z.infer<typeof conditionSchema>
+type ComparisonOperator = Condition["op"]
+
+export interface ParsedRules {
+  rules: QualityRule[]
+  // One message per problem, naming the rule it was found in
+  errors: string[]
+}
+
+/**
+ * Reads rules written as YAML or JSON (JSON is valid YAML), either as a list or as an object with a `rules` list.
+ * Blank text means no rules.
+ */
+export function parseRules(text: string): ParsedRules {
+  if (!text.trim()) return { rules: [], errors: [] }
+
+  let document: unknown
+  try {
+    document = parseYAML(text)
+  } catch (error) {
+    // YAML errors end with a snippet of the offending line; the first line says what and where
+    return { rules: [], errors: [error instanceof Error ? error.message.split("\n")[0] : "Could not parse the rules"] }
+  }
+
+  const list = Array.isArray(document) ? document : (document as { rules?: unknown } | null)?.rules
+  if (!Array.isArray(list)) return { rules: [], errors: ["Expected a list of rules, or an object with a `rules` list"] }
+
+  const parsed = z.array(ruleSchema).safeParse(list)
+  if (!parsed.success) {
+    const errors = parsed.error.issues.map(({ path, message }) => {
+      const [index, ...field] = path
+      const id = typeof index === "number" ? (list[index] as { id?: unknown } | null)?.id : undefined
+      const rule = typeof index === "number" ? `Rule ${index + 1}${typeof id === "string" ? ` (${id})` : ""}` : "Rules"
+      return `${rule}${field.length > 0 ? `, ${field.join(".")}` : ""}: ${message}`
+    })
+    return { rules: [], errors }
+  }
+
+  const seen = new Set<string>()
+  const duplicates = parsed.data.filter(({ id }) => seen.has(id) || !seen.add(id)).map(({ id }) => id)
+  if (duplicates.length > 0) {
+    return { rules: [], errors: [`Rule ids must be unique: ${Array.from(new Set(duplicates)).join(", ")}`] }
+  }
+
+  return { rules: parsed.data, errors: [] }
+}
+
+// Numbers and dates compare by value; anything else compares as trimmed text
+function comparable(value: unknown): number | string {
+  if (typeof value === "number") return value
+  const text = String(value).trim()
+  if (text !== "" && !Number.isNaN(Number(text))) return Number(text)
+  const date = parseDate(text)
+  if (date) return Date.UTC(date.year, date.month - 1, date.day, date.hour ?? 0, date.minute ?? 0, date.second ?? 0)
+  return text
+}
+
+// undefined when one side is a number or date and the other isn't, so neither ordering applies
+function compareValues(a: unknown, b: unknown): number | undefined {
+  const left = comparable(a)
+  const right = comparable(b)
+  if (typeof left !== typeof right) return undefined
+  return left === right ? 0 : left < right ? -1 : 1
+}
+
+function satisfies(op: ComparisonOperator, order: number | undefined): boolean {
+  if (order === undefined) return op === "!="
+  switch (op) {
+    case "==":
+      return order === 0
+    case "!=":
+      return order !== 0
+    case ">":
+      return order > 0
+    case ">=":
+      return order >= 0
+    case "<":
+      return order < 0
+    case "<=":
+      return order <= 0
+    default:
+      return false
+  }
+}
+
+function conditionHolds(condition: Condition, row: any): boolean {
+  const value = row[condition.column]
+  if (condition.op === "is_null") return isMissingValue(value)
+  if (condition.op === "not_null") return !isMissingValue(value)
+  return !isMissingValue(value) && satisfies(condition.op, compareValues(value, condition.value))
+}
+
+// The columns the rule constrains, which the issue is reported against
+function checkedColumns(rule: QualityRule): string[] {
+  const columns = Array.isArray(rule.column) ? rule.column : [rule.column]
+  if (rule.check === "compare" && rule.other) return [...columns, rule.other]
+  if (rule.check === "formula") {
+    const inputs = expressionColumns(parseExpression(rule.expression))
+    return [...columns, ...inputs.filter((column) => !columns.includes(column))]
+  }
+  return columns
+}
+
+function formatValue(value: string | number | boolean): string {
+  return typeof value === "string" ? `"${value}"` : String(value)
+}
+
+function describeCondition({ column, op, value }: Condition): string {
+  if (op === "is_null") return `${column} is empty`
+  if (op === "not_null") return `${column} is filled in`
+  return `${column} ${op} ${formatValue(value!)}`
+}
+
+// Reads like the rule was written, e.g. `country not null when order_total > 0`
+export function describeRule(rule: QualityRule): string {
+  let text: string
+  switch (rule.check) {
+    case "not_null":
+      text = `${rule.column} not null`
+      break
+    case "between":
+      if (rule.min === undefined) text = `${rule.column} <= ${formatValue(rule.max!)}`
+      else if (rule.max === undefined) text = `${rule.column} >= ${formatValue(rule.min)}`
+      else text = `${rule.column} between ${formatValue(rule.min)} and ${formatValue(rule.max)}`
+      break
+    case "in":
+      text = `${rule.column} in {${rule.values.join(", ")}}`
+      break
+    case "unique":
+      text = `${Array.isArray(rule.column) ? rule.column.join(" + ") : rule.column} unique`
+      break
+    case "compare":
+      text = `${rule.column} ${rule.op} ${rule.other ?? formatValue(rule.value!)}`
+      break
+    case "matches":
+      text = `${rule.column} matches /${rule.pattern}/`
+      break
+    case "formula":
+      text = `${rule.column} ${rule.op} ${rule.expression}${rule.tolerance ? ` (± ${rule.tolerance})` : ""}`
+      break
+  }
+  return rule.when ? `${text} when ${describeCondition(rule.when)}` : text
+}
+
+// Positions of the rows in scope that break the rule; empty cells only fail `not_null`
+function failingRows(rule: QualityRule, data: any[]): number[] {
+  const inScope = (row: any) => !rule.when || conditionHolds(rule.when, row)
+
+  if (rule.check === "unique") {
+    const columns = Array.isArray(rule.column) ? rule.column : [rule.column]
+    const seen = new Set<string>()
+    return indicesWhere(data, (row) => {
+      const values = columns.map((column) => row[column])
+      if (!inScope(row) || values.some(isMissingValue)) return false
+      const key = values.map((value) => String(comparable(value))).join("\u0000")
+      if (seen.has(key)) return true
+      seen.add(key)
+      return false
+    })
+  }
+
+  const pattern = rule.check === "matches" ? new RegExp(rule.pattern) : undefined
+  const formula = rule.check === "formula" ? parseExpression(rule.expression) : undefined
+
+  return indicesWhere(data, (row) => {
+    if (!inScope(row)) return false
+    const value = row[rule.column]
+    if (rule.check === "not_null") return isMissingValue(value)
+    if (isMissingValue(value)) return false
+
+    switch (rule.check) {
+      case "between":
+        return (
+          (rule.min !== undefined && !satisfies(">=", compareValues(value, rule.min))) ||
+          (rule.max !== undefined && !satisfies("<=", compareValues(value, rule.max)))
+        )
+      case "in":
+        return !rule.values.some((allowed) => compareValues(value, allowed) === 0)
+      case "compare": {
+        const other = rule.other ? row[rule.other] : rule.value
+        return !isMissingValue(other) && !satisfies(rule.op, compareValues(value, other))
+      }
+      case "matches":
+        return !pattern!.test(String(value))
+      case "formula": {
+        const expected = evaluateExpression(formula!, row)
+        if (expected === undefined) return false
+        const actual = Number(String(value).trim())
+        if (!Number.isFinite(actual)) return true
+        // Without a tolerance, only floating point noise counts as equal
+        const tolerance = rule.tolerance ?? 1e-9 * Math.max(1, Math.abs(expected))
+        const difference = actual - expected
+        return !satisfies(rule.op, Math.abs(difference) <= tolerance ? 0 : Math.sign(difference))
+      }
+      default:
+        return false
+    }
+  })
+}
+
+function ruleExamples(rule: QualityRule, data: any[], rows: number[]): string[] {
+  if (rule.check === "unique" && Array.isArray(rule.column)) {
+    const columns = rule.column
+    return exampleValues(rows.map((index) => columns.map((column) => data[index][column]).join(", ")))
+  }
+  if (rule.check === "compare" && rule.other) {
+    const other = rule.other
+    return exampleValues(rows.map((index) => `${data[index][rule.column]} vs ${data[index][other]}`))
+  }
+  if (rule.check === "formula") {
+    const formula = parseExpression(rule.expression)
+    // Rows only fail a formula once its inputs evaluate, so the expected value is always there
+    return exampleValues(
+      rows.map((index) => {
+        const expected = evaluateExpression(formula, data[index])!
+        return `${data[index][rule.column]} vs ${Number(expected.toFixed(6))}`
+      }),
+    )
+  }
+  return exampleValues(rows.map((index) => data[index][rule.column as string]))
+}
+
+/**
+ * Evaluates user-defined rules and reports each one that fails, or that names a column the data doesn't have, as an
+ * issue carrying the rule's id.
+ */
+export function ruleIssues(data: any[], rules: QualityRule[], columns: string[]): DataIssue[] {
+  const issues: DataIssue[] = []
+  const totalRows = data.length
+
+  rules.forEach((rule) => {
+    const column = checkedColumns(rule).join(", ")
+    const referenced = rule.when ? [...checkedColumns(rule), rule.when.column] : checkedColumns(rule)
+    const unknown = Array.from(new Set(referenced)).filter((name) => !columns.includes(name))
+
+    if (unknown.length > 0) {
+      issues.push({
+        column,
+        severity: "Warning",
+        type: "Invalid Rule",
+        description: `Rule "${rule.id}" refers to columns not in the data: ${unknown.join(", ")}`,
+        count: 0,
+        percentage: 0,
+        explanation: "A rule naming a column the data doesn't have can't be checked, so it was skipped.",
+        recommendation: `Fix the column name in "${rule.id}" or check that the right file was uploaded.`,
+        ruleId: rule.id,
+      })
+      return
+    }
+
+    const rows = failingRows(rule, data)
+    if (rows.length === 0) return
+
+    const expectation = describeRule(rule)
+    issues.push({
+      column,
+      severity: rule.severity ?? "Warning",
+      type: "Rule Violation",
+      description: `Rule "${rule.id}" failed on ${rows.length} rows: ${expectation}`,
+      count: rows.length,
+      percentage: (rows.length / totalRows) * 100,
+      explanation: rule.description ?? `Every row is expected to satisfy ${expectation}.`,
+      recommendation: `Correct the rows that break "${rule.id}", or update the rule if the business has changed.`,
+      rowReferences: rowReferences(rows),
+      examples: rule.check === "not_null" ? undefined : ruleExamples(rule, data, rows),
+      ruleId: rule.id,
+    })
+  })
+
+  return issues
+}
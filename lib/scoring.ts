@@ -0,0 +1,137 @@
+import { issueColumns } from "@/lib/references"
+import type { ColumnScore, ColumnType, DataIssue, QualityDimension, QualityScores } from "@/lib/types"
+
+export const QUALITY_DIMENSIONS: QualityDimension[] = [
+  "completeness",
+  "validity",
+  "uniqueness",
+  "consistency",
+  "timeliness",
+]
+
+export const QUALITY_DIMENSION_LABELS: Record<QualityDimension, string> = {
+  completeness: "Completeness",
+  validity: "Validity",
+  uniqueness: "Uniqueness",
+  consistency: "Consistency",
+  timeliness: "Timeliness",
+}
+
+// Types left out (co-missing columns, non-random missingness, redundant columns) describe how the data is shaped
+// rather than defects in it, so they don't lower the score
+const DIMENSION_BY_TYPE: Record<string, QualityDimension> = {
+  "Missing Values": "completeness",
+  "Disguised Missing Values": "completeness",
+  "Missing Key": "completeness",
+  "Schema Violation": "completeness",
+  "Invalid Format": "validity",
+  "Mixed Types": "validity",
+  "Mixed Cell Types": "validity",
+  "Type Mismatch": "validity",
+  "Number Stored as Text": "validity",
+  "Formula Error": "validity",
+  "Impossible Dates": "validity",
+  "Implausible Dates": "validity",
+  Outliers: "validity",
+  "Multivariate Outliers": "validity",
+  Structural: "validity",
+  "Array Length Anomaly": "validity",
+  "Rule Violation": "validity",
+  "Contract Violation": "validity",
+  "Inconsistent Nesting": "validity",
+  "Duplicate Rows": "uniqueness",
+  "Duplicate Values": "uniqueness",
+  "Primary Key": "uniqueness",
+  "Near Duplicates": "uniqueness",
+  "Inconsistent Categories": "consistency",
+  "Dependency Violation": "consistency",
+  "Inconsistent Date Formats": "consistency",
+  "Ambiguous Date Order": "consistency",
+  "Timezone Inconsistency": "consistency",
+  "Future Dates": "timeliness",
+  "Implausible Timestamp": "timeliness",
+}
+
+export interface ScoringWeights {
+  // Relative weight of each dimension in the overall score; 1 when unset
+  dimensions?: Partial<Record<QualityDimension, number>>
+  // Relative weight of each column in the dimension scores; 1 when unset
+  columns?: Record<string, number>
+}
+
+export function issueDimension(issue: DataIssue): QualityDimension | undefined {
+  return DIMENSION_BY_TYPE[issue.type]
+}
+
+function weightedAverage(values: number[], weights: number[]): number {
+  const total = weights.reduce((sum, w) => sum + w, 0)
+  return total > 0 ? values.reduce((sum, v, i) => sum + v * weights[i], 0) / total : 100
+}
+
+/**
+ * Scores each column by the share of its cells affected in each dimension, then rolls columns up into dimension
+ * scores and dimensions into the overall score. A column with 6% missing values loses 6 points of completeness,
+ * whatever the issue's severity, so the score tracks magnitude and doesn't bottom out on wide datasets.
+ */
+export function qualityScores(
+  issues: DataIssue[],
+  columnTypes: ColumnType[],
+  totalRows: number,
+  weights: ScoringWeights = {},
+): QualityScores {
+  const columns = columnTypes.map(({ column }) => column)
+  // Share of each column's cells affected, per dimension
+  const penalties = new Map(columns.map((column) => [column, new Map<QualityDimension, number>()]))
+
+  issues.forEach((issue) => {
+    const dimension = issueDimension(issue)
+    if (!dimension || totalRows === 0) return
+    // Malformed rows are dropped before the column checks, so they count against every column
+    const affected = issue.column === "(row structure)" ? columns : issueColumns(issue, columns)
+    affected.forEach((column) => {
+      const penalty = penalties.get(column)!
+      penalty.set(dimension, Math.min(1, (penalty.get(dimension) || 0) + issue.count / totalRows))
+    })
+  })
+
+  // Unrounded per-column dimension scores, so small issues still register once averaged
+  const columnDimensions = columns.map((column) => {
+    const penalty = penalties.get(column)!
+    return Object.fromEntries(
+      QUALITY_DIMENSIONS.map((dimension) => [dimension, 100 * (1 - (penalty.get(dimension) || 0))]),
+    ) as Record<QualityDimension, number>
+  })
+
+  const columnScores: ColumnScore[] = columns.map((column, index) => {
+    const total = Array.from(penalties.get(column)!.values()).reduce((sum, p) => sum + p, 0)
+    const dimensions = Object.fromEntries(
+      QUALITY_DIMENSIONS.map((dimension) => [dimension, Math.round(columnDimensions[index][dimension])]),
+    ) as Record<QualityDimension, number>
+    return { column, score: Math.round(100 * (1 - Math.min(1, total))), dimensions }
+  })
+
+  // Timeliness can only be judged on date columns
+  const hasDates = columnTypes.some(({ type }) => type === "date" || type === "datetime")
+  const applicable = QUALITY_DIMENSIONS.filter(
+    (dimension) =>
+      dimension !== "timeliness" || hasDates || issues.some((issue) => issueDimension(issue) === "timeliness"),
+  )
+
+  const columnWeights = columns.map((column) => weights.columns?.[column] ?? 1)
+  const dimensionScores = applicable.map((dimension) =>
+    weightedAverage(columnDimensions.map((scores) => scores[dimension]), columnWeights),
+  )
+  const dimensions = Object.fromEntries(
+    QUALITY_DIMENSIONS.map((dimension) => {
+      const index = applicable.indexOf(dimension)
+      return [dimension, index >= 0 ? Math.round(dimensionScores[index]) : null]
+    }),
+  ) as Record<QualityDimension, number | null>
+
+  const overall = weightedAverage(
+    dimensionScores,
+    applicable.map((dimension) => weights.dimensions?.[dimension] ?? 1),
+  )
+
+  return { overall: Math.round(overall), dimensions, columns: columnScores }
+}
@@ -0,0 +1,137 @@
+import { isMissingValue, isNumericType } from "@/lib/infer"
+import { indicesWhere, rowReferences } from "@/lib/references"
+import type { ColumnType, DataIssue } from "@/lib/types"
+import { columnFormat, isValidFormat } from "@/lib/validators"
+
+// Placeholders that stand in for "no value" often enough to check for by default
+export const DEFAULT_SENTINELS = [
+  "N/A",
+  "NA",
+  "#N/A",
+  "-",
+  "--",
+  "?",
+  "NaN",
+  "none",
+  "nil",
+  "unknown",
+  "missing",
+  "not available",
+  "TBD",
+  "-999",
+  "-9999",
+  "9999-12-31",
+  "0000-00-00",
+]
+
+// A numeric value qualifies as an automatic sentinel when it is this common and far from the other values
+const SPIKE_SHARE = 0.05
+const MIN_SPIKE_COUNT = 3
+const MIN_REFERENCE_VALUES = 10
+const ROBUST_Z_LIMIT = 3.5
+const MAX_EXAMPLES = 5
+
+interface SentinelMatch {
+  value: string
+  count: number
+  // Detected from the value distribution rather than from the sentinel list
+  detected: boolean
+}
+
+function isNumber(value: string): boolean {
+  return value !== "" && !isNaN(Number(value))
+}
+
+function matchesSentinel(value: string, sentinel: string): boolean {
+  if (isNumber(value) && isNumber(sentinel)) return Number(value) === Number(sentinel)
+  return value.toLowerCase() === sentinel.toLowerCase()
+}
+
+function median(sorted: number[]): number {
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+// Numbers that systems habitually write instead of a null: 0, -1, 99, 999, -9999...
+function looksLikePlaceholder(value: number): boolean {
+  return value === 0 || value === -1 || /^-?9{2,}$/.test(String(value))
+}
+
+// Values that account for a large share of a numeric column while sitting apart from everything else
+function detectSpikes(values: string[], sentinels: string[]): SentinelMatch[] {
+  const numbers = values.filter(isNumber).map(Number)
+  const counts = new Map<number, number>()
+  numbers.forEach((n) => counts.set(n, (counts.get(n) || 0) + 1))
+
+  const spikes: SentinelMatch[] = []
+  counts.forEach((count, value) => {
+    if (count < MIN_SPIKE_COUNT || count / numbers.length < SPIKE_SHARE) return
+    if (sentinels.some((sentinel) => matchesSentinel(String(value), sentinel))) return
+
+    const rest = numbers.filter((n) => n !== value).sort((a, b) => a - b)
+    if (rest.length < MIN_REFERENCE_VALUES) return
+
+    const center = median(rest)
+    const mad = median(rest.map((n) => Math.abs(n - center)).sort((a, b) => a - b))
+    const robustZ = mad > 0 ? Math.abs(value - center) / (1.4826 * mad) : 0
+    const outsideRange = value < rest[0] || value > rest[rest.length - 1]
+
+    if (robustZ > ROBUST_Z_LIMIT || (outsideRange && looksLikePlaceholder(value))) {
+      spikes.push({ value: String(value), count, detected: true })
+    }
+  })
+  return spikes
+}
+
+/**
+ * Reports values that look present but mean "missing": entries from the sentinel list, and in numeric columns,
+ * single values that are heavily over-represented and far from the rest of the distribution.
+ */
+export function sentinelIssue(
+  columnType: ColumnType,
+  rawValues: unknown[],
+  totalRows: number,
+  sentinels: string[] = DEFAULT_SENTINELS,
+): DataIssue | undefined {
+  const { column, type } = columnType
+  const values = rawValues.filter((v) => !isMissingValue(v)).map((v) => String(v).trim())
+  // A placeholder that is a real value in the column's format ("NA" is Namibia's country code) isn't one there
+  const format = columnFormat(columnType, rawValues)
+  const candidates = format ? sentinels.filter((sentinel) => !isValidFormat(format, sentinel)) : sentinels
+
+  const listed = new Map<string, number>()
+  values.forEach((value) => {
+    if (candidates.some((sentinel) => matchesSentinel(value, sentinel))) listed.set(value, (listed.get(value) || 0) + 1)
+  })
+
+  const matches: SentinelMatch[] = [
+    ...Array.from(listed.entries()).map(([value, count]) => ({ value, count, detected: false })),
+    ...(isNumericType(type) ? detectSpikes(values, candidates) : []),
+  ].sort((a, b) => b.count - a.count)
+  if (matches.length === 0) return undefined
+
+  const matchedRows = indicesWhere(
+    rawValues,
+    (v) => !isMissingValue(v) && matches.some((match) => matchesSentinel(String(v).trim(), match.value)),
+  )
+  const count = matches.reduce((sum, match) => sum + match.count, 0)
+  const percentage = (count / totalRows) * 100
+  const examples = matches
+    .slice(0, MAX_EXAMPLES)
+    .map((match) => `"${match.value}" ×${match.count}${match.detected ? " (over-represented)" : ""}`)
+    .join(", ")
+  const detected = matches.filter((match) => match.detected)
+
+  return {
+    column,
+    severity: percentage > 20 ? "Critical" : percentage > 5 ? "Warning" : "Info",
+    type: "Disguised Missing Values",
+    description: `${count} values are placeholders for missing data (${examples})`,
+    count,
+    percentage,
+    explanation: `${column} contains values that look filled in but stand for "unknown", which hides the true missing rate and skews averages, distributions and joins.${detected.length ? " Values marked over-represented are far more common than any other value and sit apart from the rest of the distribution." : ""}`,
+    recommendation: `Replace the placeholders in ${column} with real nulls at load time and stop the source from writing them.`,
+    rowReferences: rowReferences(matchedRows),
+    examples: matches.map((match) => match.value),
+  }
+}
@@ -0,0 +1,98 @@
+export function normalizeText(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()
+}
+
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0
+  if (!a.length) return b.length
+  if (!b.length) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+export function levenshteinSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length)
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest
+}
+
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1
+  if (!a.length || !b.length) return 0
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1)
+  const aMatches = new Array(a.length).fill(false)
+  const bMatches = new Array(b.length).fill(false)
+  let matches = 0
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window)
+    const end = Math.min(i + window + 1, b.length)
+    for (let j = start; j < end; j++) {
+      if (bMatches[j] || a[i] !== b[j]) continue
+      aMatches[i] = true
+      bMatches[j] = true
+      matches++
+      break
+    }
+  }
+  if (matches === 0) return 0
+
+  let transpositions = 0
+  let k = 0
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue
+    while (!bMatches[k]) k++
+    if (a[i] !== b[k]) transpositions++
+    k++
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3
+
+  let prefix = 0
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++
+  return jaro + prefix * 0.1 * (1 - jaro)
+}
+
+// Token set ratio: compares the shared tokens against each side's leftovers, so word order and repeats don't matter
+export function tokenSetSimilarity(a: string, b: string): number {
+  const aTokens = new Set(a.split(" ").filter(Boolean))
+  const bTokens = new Set(b.split(" ").filter(Boolean))
+  if (aTokens.size === 0 && bTokens.size === 0) return 1
+  if (aTokens.size === 0 || bTokens.size === 0) return 0
+
+  const shared = Array.from(aTokens).filter((t) => bTokens.has(t)).sort().join(" ")
+  const aRest = [shared, ...Array.from(aTokens).filter((t) => !bTokens.has(t)).sort()].join(" ").trim()
+  const bRest = [shared, ...Array.from(bTokens).filter((t) => !aTokens.has(t)).sort()].join(" ").trim()
+
+  return Math.max(
+    levenshteinSimilarity(shared, aRest),
+    levenshteinSimilarity(shared, bRest),
+    levenshteinSimilarity(aRest, bRest),
+  )
+}
+
+// Best of the three measures on normalized text; each catches a different kind of variation.
+// Token set is skipped for single words, where it would score "smith" and "john smith" as identical.
+export function stringSimilarity(a: string, b: string): number {
+  const left = normalizeText(a)
+  const right = normalizeText(b)
+  if (left === right) return 1
+
+  const character = Math.max(jaroWinkler(left, right), levenshteinSimilarity(left, right))
+  if (!left.includes(" ") || !right.includes(" ")) return character
+  return Math.max(character, tokenSetSimilarity(left, right))
+}
@@ -0,0 +1,121 @@
+import { tokenizeCSV } from "@/lib/csv"
+
+export interface DecodedText {
+  text: string
+  encoding: string
+  bom: boolean
+}
+
+export interface Dialect {
+  delimiter: string
+  quoteChar: string
+  hasHeader: boolean
+}
+
+const CANDIDATE_DELIMITERS = [",", ";", "\t", "|"]
+const CANDIDATE_QUOTES = ['"', "'"]
+const SAMPLE_SIZE = 64 * 1024
+
+// `encoding` only applies to files without a byte-order mark; check `bom` to tell whether it was used
+export function decodeText(buffer: ArrayBuffer, encoding?: string): DecodedText {
+  const bytes = new Uint8Array(buffer)
+
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder("utf-8").decode(bytes.subarray(3)), encoding: "utf-8", bom: true }
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder("utf-16le").decode(bytes.subarray(2)), encoding: "utf-16le", bom: true }
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder("utf-16be").decode(bytes.subarray(2)), encoding: "utf-16be", bom: true }
+  }
+
+  if (encoding) {
+    return { text: new TextDecoder(encoding).decode(bytes), encoding, bom: false }
+  }
+
+  // Bytes that are not valid UTF-8 almost always mean a legacy Windows export
+  try {
+    return { text: new TextDecoder("utf-8", { fatal: true }).decode(bytes), encoding: "utf-8", bom: false }
+  } catch {
+    return { text: new TextDecoder("windows-1252").decode(bytes), encoding: "windows-1252", bom: false }
+  }
+}
+
+function sampleRecords(text: string, delimiter: string, quote: string) {
+  return tokenizeCSV(text.slice(0, SAMPLE_SIZE), { delimiter, quote })
+    .records.slice(0, 50)
+    .map((r) => r.fields)
+}
+
+// Favors the delimiter that splits the sample into the most rows with the same, greater-than-one field count
+function scoreDialect(records: string[][]): number {
+  if (records.length === 0) return 0
+
+  const counts = new Map<number, number>()
+  records.forEach((fields) => counts.set(fields.length, (counts.get(fields.length) || 0) + 1))
+
+  let modeWidth = 0
+  let modeCount = 0
+  counts.forEach((count, width) => {
+    if (count > modeCount || (count === modeCount && width > modeWidth)) {
+      modeWidth = width
+      modeCount = count
+    }
+  })
+
+  if (modeWidth < 2) return 0
+  return (modeCount / records.length) * Math.log2(modeWidth + 1)
+}
+
+function isNumeric(value: string): boolean {
+  return value.trim() !== "" && !isNaN(Number(value))
+}
+
+// Same idea as Python's csv.Sniffer.has_header: a header cell usually differs in type or length from the column below it
+function detectHeader(records: string[][]): boolean {
+  if (records.length < 2) return true
+
+  const [first, ...rest] = records
+  if (new Set(first).size !== first.length || first.some((h) => h.trim() === "")) return false
+
+  let votes = 0
+  first.forEach((cell, column) => {
+    const values = rest.map((r) => r[column]).filter((v) => v !== undefined && v !== "")
+    if (values.length === 0) return
+
+    if (values.every(isNumeric)) {
+      votes += isNumeric(cell) ? -1 : 1
+      return
+    }
+
+    const lengths = new Set(values.map((v) => v.length))
+    if (lengths.size === 1) {
+      votes += lengths.has(cell.length) ? -1 : 1
+      return
+    }
+
+    if (values.includes(cell)) votes -= 1
+  })
+
+  return votes >= 0
+}
+
+export function sniffDialect(text: string, overrides: Partial<Dialect> = {}): Dialect {
+  let best = { delimiter: ",", quoteChar: '"', score: -1 }
+
+  const delimiters = overrides.delimiter ? [overrides.delimiter] : CANDIDATE_DELIMITERS
+  const quotes = overrides.quoteChar ? [overrides.quoteChar] : CANDIDATE_QUOTES
+
+  quotes.forEach((quoteChar) => {
+    delimiters.forEach((delimiter) => {
+      const score = scoreDialect(sampleRecords(text, delimiter, quoteChar))
+      // Ties go to the earlier, more common candidate
+      if (score > best.score) best = { delimiter, quoteChar, score }
+    })
+  })
+
+  const hasHeader = overrides.hasHeader ?? detectHeader(sampleRecords(text, best.delimiter, best.quoteChar))
+
+  return { delimiter: best.delimiter, quoteChar: best.quoteChar, hasHeader }
+}
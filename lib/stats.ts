@@ -0,0 +1,10 @@
+// A loop rather than Math.min(...values) / Math.max(...values), which overflow the call stack on large inputs
+export function range(values: Iterable<number>): { min: number; max: number } {
+  let min = Infinity
+  let max = -Infinity
+  for (const v of values) {
+    if (v < min) min = v
+    if (v > max) max = v
+  }
+  return { min, max }
+}
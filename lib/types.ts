@@ -0,0 +1,233 @@
+export interface DuplicateCluster {
+  // 1-based data row numbers
+  rows: number[]
+  similarity: number
+  sample: Record<string, string>[]
+}
+
+export interface VariantGroup {
+  canonical: string
+  variants: { value: string; count: number }[]
+}
+
+export interface RowReferences {
+  // 1-based data row numbers, capped to MAX_ROW_REFERENCES in responses
+  rows: number[]
+  total: number
+}
+
+export type OutlierMethod = "iqr" | "zscore" | "mad" | "log-iqr"
+
+export interface DataIssue {
+  column: string
+  severity: "Critical" | "Warning" | "Info"
+  type: string
+  description: string
+  count: number
+  percentage: number
+  explanation: string
+  recommendation: string
+  fixCode?: string
+  rowReferences?: RowReferences
+  // Offending values, deduplicated and capped
+  examples?: string[]
+  clusters?: DuplicateCluster[]
+  variantGroups?: VariantGroup[]
+  outlierMethod?: OutlierMethod | "mahalanobis"
+  // Values outside these bounds were reported as outliers (for Mahalanobis, the squared distance cut-off)
+  bounds?: { lower: number; upper: number }
+  // Set on issues raised by a user-defined rule
+  ruleId?: string
+  // For cross-table issues, the table whose rows `rowReferences` point into
+  table?: string
+}
+
+export interface ParseDetection {
+  encoding: string
+  bom: boolean
+  delimiter?: string
+  quoteChar?: string
+  hasHeader?: boolean
+  // Settings that came from the client instead of being inferred
+  overridden: string[]
+}
+
+export interface ColumnSchema {
+  name: string
+  type: string
+  logicalType?: string
+  nullable: boolean
+  precision?: number
+  scale?: number
+}
+
+export interface SchemaInfo {
+  format: "Parquet" | "Arrow IPC"
+  columns: ColumnSchema[]
+  numRows: number
+  rowGroups?: number
+  createdBy?: string
+}
+
+export type SemanticType =
+  | "integer"
+  | "decimal"
+  | "boolean"
+  | "date"
+  | "datetime"
+  | "categorical"
+  | "text"
+  | "identifier"
+
+export interface ColumnType {
+  column: string
+  type: SemanticType
+  // Share of non-missing values that conform to the inferred type
+  confidence: number
+  valueCount: number
+  mismatchCount: number
+  mismatchExamples: string[]
+}
+
+export interface CandidateKey {
+  columns: string[]
+  uniqueness: number
+}
+
+export interface AnalysisResult {
+  summary: string
+  totalRows: number
+  totalColumns: number
+  issues: DataIssue[]
+  overallScore: number
+  detection?: ParseDetection
+  sheetName?: string
+  // Set when several files were analyzed together: the file name without its extension, plus the sheet for workbooks
+  tableName?: string
+  fileName?: string
+  schema?: SchemaInfo
+  columnTypes?: ColumnType[]
+  candidateKeys?: CandidateKey[]
+  primaryKey?: string[]
+  similarityThreshold?: number
+  // Placeholder values that were treated as disguised missing values
+  sentinels?: string[]
+  grid?: DataGrid
+  profiles?: ColumnProfile[]
+  missingness?: MissingnessSummary
+  correlations?: CorrelationSummary
+  scores?: QualityScores
+}
+
+export interface HistogramBin {
+  // Lower bound inclusive; upper bound exclusive except for the last bin
+  start: number
+  end: number
+  count: number
+}
+
+export interface NumericSummary {
+  min: number
+  max: number
+  mean: number
+  median: number
+  std: number
+}
+
+export interface ColumnProfile {
+  column: string
+  type: SemanticType
+  // Non-missing values
+  count: number
+  missing: number
+  distinct: number
+  // Numeric columns only
+  stats?: NumericSummary
+  histogram?: HistogramBin[]
+  topValues: { value: string; count: number }[]
+  lengths: { min: number; max: number; mean: number; histogram: HistogramBin[] }
+}
+
+export interface MissingnessPattern {
+  // Columns missing together in a row; rows with nothing missing aren't listed
+  columns: string[]
+  count: number
+}
+
+export interface MissingnessSummary {
+  // Columns with some but not all values missing, most missing first
+  columns: string[]
+  missing: number[]
+  // Rows missing both columns, indexed like `columns`
+  coMissing: number[][]
+  // Pearson correlation of the null indicators, from -1 (never missing together) to 1 (always)
+  correlation: number[][]
+  patterns: MissingnessPattern[]
+  completeRows: number
+}
+
+export interface CorrelationSummary {
+  numericColumns: string[]
+  // Indexed like `numericColumns`; null when a pair has too few rows or a column is constant
+  pearson: (number | null)[][]
+  spearman: (number | null)[][]
+  categoricalColumns: string[]
+  // Indexed like `categoricalColumns`, from 0 (independent) to 1 (one determines the other)
+  cramersV: (number | null)[][]
+}
+
+export type QualityDimension = "completeness" | "validity" | "uniqueness" | "consistency" | "timeliness"
+
+export interface ColumnScore {
+  column: string
+  score: number
+  dimensions: Record<QualityDimension, number>
+}
+
+export interface QualityScores {
+  // 0-100, weighted average of the applicable dimensions
+  overall: number
+  // null when no check applies, e.g. timeliness in a dataset without dates
+  dimensions: Record<QualityDimension, number | null>
+  columns: ColumnScore[]
+}
+
+// One page of the parsed dataset as strings, for the preview grid and the issue drill-down
+export interface DataGrid {
+  columns: string[]
+  // 0-based position of the first entry of `rows` in the dataset
+  offset: number
+  rows: string[][]
+  totalRows: number
+  // The affected 1-based row numbers within `rows`, ascending, for each entry of `issues`
+  issueRows: number[][]
+  // The rows that issues' `rowReferences` point at, by 1-based row number, wherever they fall
+  referencedRows: Record<number, string[]>
+}
+
+export interface WorkbookAnalysis {
+  sheetNames: string[]
+  sheets: AnalysisResult[]
+}
+
+export interface TableRelationship {
+  childTable: string
+  childColumn: string
+  parentTable: string
+  parentColumn: string
+  // Whether the column names pointed at the link, or the values alone did
+  inferredBy: "name" | "values"
+  // Share of the child's distinct values found among the parent's keys
+  coverage: number
+  cardinality: "one-to-one" | "one-to-many" | "many-to-many"
+  orphanRows: number
+  unusedParents: number
+}
+
+// Several related files analyzed together
+export interface TableSetAnalysis {
+  tables: AnalysisResult[]
+  relationships: TableRelationship[]
+  // Cross-table issues; each names its table in `table`
+  issues: DataIssue[]
+}
@@ -0,0 +1,306 @@
+import { isMissingValue } from "@/lib/infer"
+import { exampleValues, indicesWhere, rowReferences } from "@/lib/references"
+import type { ColumnType, DataIssue, SemanticType } from "@/lib/types"
+
+export type FormatName = "email" | "phone" | "url" | "uuid" | "ip" | "country" | "currency" | "postal"
+
+interface FormatValidator {
+  label: string
+  // Column names that declare the format outright
+  names: RegExp
+  // Formats distinctive enough to be recognized from the values alone, whatever the column is called
+  detectByContent?: boolean
+  isValid: (value: string) => boolean
+  explanation: string
+}
+
+// A column without a telling name is treated as a format when at least this share of its values conform
+const CONTENT_MATCH_SHARE = 0.6
+const CONTENT_SAMPLE_SIZE = 500
+const MAX_EXAMPLES = 5
+const FORMAT_TYPES: SemanticType[] = ["text", "identifier", "categorical", "integer"]
+
+const EMAIL_PATTERN =
+  /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*@([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,}$/i
+const E164_PATTERN = /^\+[1-9]\d{6,14}$/
+const UUID_PATTERN = /^([0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}|0{8}-(0{4}-){3}0{12})$/i
+const IPV4_PATTERN = /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/
+const HEX_GROUP = /^[0-9a-f]{1,4}$/i
+
+// Postal code formats by ISO 3166-1 alpha-2 country
+const POSTAL_PATTERNS: Record<string, RegExp> = {
+  US: /^\d{5}(-\d{4})?$/,
+  CA: /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d$/i,
+  GB: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i,
+  DE: /^\d{5}$/,
+  FR: /^\d{5}$/,
+  IT: /^\d{5}$/,
+  ES: /^(0[1-9]|[1-4]\d|5[0-2])\d{3}$/,
+  MX: /^\d{5}$/,
+  NL: /^[1-9]\d{3} ?[A-Z]{2}$/i,
+  BE: /^[1-9]\d{3}$/,
+  AT: /^[1-9]\d{3}$/,
+  CH: /^[1-9]\d{3}$/,
+  AU: /^\d{4}$/,
+  SE: /^\d{3} ?\d{2}$/,
+  PL: /^\d{2}-\d{3}$/,
+  IN: /^[1-9]\d{2} ?\d{3}$/,
+  JP: /^\d{3}-?\d{4}$/,
+  BR: /^\d{5}-?\d{3}$/,
+}
+
+// Alpha-3 codes and common short names for the countries above; full English names are resolved through Intl
+const COUNTRY_ALIASES: Record<string, string> = {
+  USA: "US",
+  "U.S.": "US",
+  "U.S.A.": "US",
+  CAN: "CA",
+  GBR: "GB",
+  UK: "GB",
+  "GREAT BRITAIN": "GB",
+  ENGLAND: "GB",
+  DEU: "DE",
+  FRA: "FR",
+  ITA: "IT",
+  ESP: "ES",
+  MEX: "MX",
+  NLD: "NL",
+  HOLLAND: "NL",
+  BEL: "BE",
+  AUT: "AT",
+  CHE: "CH",
+  AUS: "AU",
+  SWE: "SE",
+  POL: "PL",
+  IND: "IN",
+  JPN: "JP",
+  BRA: "BR",
+}
+
+const COUNTRY_COLUMN = /(^|[_\s.-])country(_?code)?$|^country|[a-z]Country$/i
+
+const regionNames = new Intl.DisplayNames(["en"], { type: "region" })
+let currencyCodes: Set<string> | undefined
+let countryNames: Map<string, string> | undefined
+
+function isCountryCode(value: string): boolean {
+  const code = value.trim().toUpperCase()
+  if (!/^[A-Z]{2}$/.test(code)) return false
+  const name = regionNames.of(code)
+  // Unassigned codes come back unchanged, user-assigned ones (XA-XZ, ZZ...) as "Unknown Region"
+  return !!name && name !== code && name !== "Unknown Region"
+}
+
+function isCurrencyCode(value: string): boolean {
+  currencyCodes ??= new Set(Intl.supportedValuesOf("currency"))
+  return currencyCodes.has(value.trim().toUpperCase())
+}
+
+function isURL(value: string): boolean {
+  if (/\s/.test(value)) return false
+  try {
+    const url = new URL(value)
+    return ["http:", "https:", "ftp:"].includes(url.protocol) && (url.hostname.includes(".") || url.hostname === "localhost")
+  } catch {
+    return false
+  }
+}
+
+function isIPv6(value: string): boolean {
+  const halves = value.split("::")
+  if (halves.length > 2) return false
+
+  const groups = halves.map((half) => (half === "" ? [] : half.split(":")))
+  const last = groups[groups.length - 1]
+  // An embedded IPv4 tail ("::ffff:192.0.2.1") takes the room of two groups
+  const ipv4Tail = last.length > 0 && IPV4_PATTERN.test(last[last.length - 1])
+  if (ipv4Tail) last.pop()
+
+  const hexGroups = groups.flat()
+  if (!hexGroups.every((group) => HEX_GROUP.test(group))) return false
+
+  const size = hexGroups.length + (ipv4Tail ? 2 : 0)
+  return halves.length === 2 ? size < 8 : size === 8
+}
+
+function isIPAddress(value: string): boolean {
+  return IPV4_PATTERN.test(value) || isIPv6(value)
+}
+
+// Phone numbers are commonly written with spaces, dashes, dots or parentheses; E.164 is what remains without them
+function isE164(value: string): boolean {
+  return E164_PATTERN.test(value.replace(/[\s().-]/g, ""))
+}
+
+function isKnownPostalCode(value: string): boolean {
+  return Object.values(POSTAL_PATTERNS).some((pattern) => pattern.test(value))
+}
+
+// Resolves a country column value ("DE", "DEU", "Germany") to an alpha-2 code
+function countryCode(value: unknown): string | undefined {
+  if (isMissingValue(value)) return undefined
+  const raw = String(value).trim().toUpperCase()
+  if (isCountryCode(raw)) return raw
+  if (COUNTRY_ALIASES[raw]) return COUNTRY_ALIASES[raw]
+
+  if (!countryNames) {
+    countryNames = new Map()
+    for (let first = 65; first <= 90; first++) {
+      for (let second = 65; second <= 90; second++) {
+        const code = String.fromCharCode(first, second)
+        if (isCountryCode(code)) countryNames.set(regionNames.of(code)!.toUpperCase(), code)
+      }
+    }
+  }
+  return countryNames.get(raw)
+}
+
+const VALIDATORS: Record<FormatName, FormatValidator> = {
+  email: {
+    label: "email addresses",
+    names: /e-?mail/i,
+    detectByContent: true,
+    isValid: (value) => EMAIL_PATTERN.test(value),
+    explanation: "Malformed addresses bounce, can't be used to match customers across systems and often hide typos or placeholders.",
+  },
+  phone: {
+    label: "E.164 phone numbers",
+    names: /(^|[_\s.-])(phone|mobile|tel|telephone|fax|cell)(_?(number|no))?$|[a-z](Phone|Mobile)(Number)?$|^phone/i,
+    isValid: isE164,
+    explanation: "Numbers without a leading + and country code, or with the wrong number of digits, can't be dialled or matched reliably across regions.",
+  },
+  url: {
+    label: "URLs",
+    names: /(^|[_\s.-])(url|uri|website|homepage|link)$|[a-z](Url|URL)$/i,
+    detectByContent: true,
+    isValid: isURL,
+    explanation: "URLs without a scheme or a valid host can't be opened or joined against web analytics data.",
+  },
+  uuid: {
+    label: "UUIDs",
+    names: /(uuid|guid)$/i,
+    detectByContent: true,
+    isValid: (value) => UUID_PATTERN.test(value),
+    explanation: "Truncated or malformed UUIDs usually come from manual edits or lossy exports and will fail to join against the system that issued them.",
+  },
+  ip: {
+    label: "IP addresses",
+    names: /(^|[_\s.-])(ip|IP)(v[46])?(_?(addr|address|Address))?$|[a-z](Ip|IP)(Address)?$|^(ip|IP)(v[46])?([A-Z_]|$)/,
+    detectByContent: true,
+    isValid: isIPAddress,
+    explanation: "Values that are neither valid IPv4 nor IPv6 addresses break geolocation, rate limiting and security analysis.",
+  },
+  country: {
+    label: "ISO 3166-1 country codes",
+    names: COUNTRY_COLUMN,
+    isValid: isCountryCode,
+    explanation: "Codes outside ISO 3166-1 don't map to a country, so lookups, maps and regional aggregates silently drop these rows.",
+  },
+  currency: {
+    label: "ISO 4217 currency codes",
+    names: /(^|[_\s.-])(currency|ccy)(_?code)?$|^currency|[a-z]Currency$/i,
+    isValid: isCurrencyCode,
+    explanation: "Currency codes outside ISO 4217 make amounts impossible to convert or compare.",
+  },
+  postal: {
+    label: "postal codes",
+    names: /(^|[_\s.-])(zip|zipcode|postcode|postal(_?code)?)$|[a-z](Zip|Postcode|PostalCode)$|^(zip|postal)/i,
+    isValid: isKnownPostalCode,
+    explanation: "Postal codes that don't fit their country's format break address validation and geocoding. Numeric exports often drop leading zeros.",
+  },
+}
+
+function detectFormat(columnType: ColumnType, values: string[]): FormatName | undefined {
+  const formats = Object.keys(VALIDATORS) as FormatName[]
+  // Flags, amounts and timestamps named after a format ("email_verified", "currency_rate") aren't that format
+  if (!FORMAT_TYPES.includes(columnType.type)) return undefined
+  const byName = formats.find((format) => VALIDATORS[format].names.test(columnType.column))
+
+  // Country columns often hold full names; only validate them when they look like two-letter codes
+  if (byName === "country") {
+    const codeLike = values.filter((v) => /^[A-Za-z]{2}$/.test(v)).length
+    return codeLike >= values.length * CONTENT_MATCH_SHARE ? "country" : undefined
+  }
+  if (byName) return byName
+
+  if (columnType.type !== "text" && columnType.type !== "identifier") return undefined
+  const sample = values.slice(0, CONTENT_SAMPLE_SIZE)
+  return formats.find(
+    (format) =>
+      VALIDATORS[format].detectByContent &&
+      sample.filter(VALIDATORS[format].isValid).length >= sample.length * CONTENT_MATCH_SHARE,
+  )
+}
+
+export function columnFormat(columnType: ColumnType, values: unknown[]): FormatName | undefined {
+  const present = values.filter((value) => !isMissingValue(value)).map((value) => String(value).trim())
+  return present.length > 0 ? detectFormat(columnType, present) : undefined
+}
+
+export function isValidFormat(format: FormatName, value: string): boolean {
+  return VALIDATORS[format].isValid(value)
+}
+
+// Columns with a checkable format (emails, phone numbers, codes) hold distinct values that only look alike
+export function hasKnownFormat(columnType: ColumnType, values: unknown[]): boolean {
+  return columnFormat(columnType, values) !== undefined
+}
+
+/**
+ * Checks a column against the format its name or content implies. Postal codes are checked against the
+ * row's country when the dataset has a country column, and against any known format otherwise.
+ */
+export function formatIssue(
+  columnType: ColumnType,
+  data: Record<string, any>[],
+  columns: string[],
+): DataIssue | undefined {
+  const { column } = columnType
+  const present = indicesWhere(data, (row) => !isMissingValue(row[column]))
+  const values = present.map((index) => String(data[index][column]).trim())
+  if (values.length === 0) return undefined
+
+  const format = detectFormat(columnType, values)
+  if (!format) return undefined
+  const validator = VALIDATORS[format]
+
+  let checked = values.length
+  // Positions in `values` that fail validation
+  let failing: number[]
+
+  const countryColumn = format === "postal" ? columns.find((c) => c !== column && COUNTRY_COLUMN.test(c)) : undefined
+  if (countryColumn) {
+    failing = []
+    checked = 0
+    present.forEach((rowIndex, index) => {
+      const pattern = POSTAL_PATTERNS[countryCode(data[rowIndex][countryColumn]) || ""]
+      if (!pattern) return
+      checked++
+      if (!pattern.test(values[index])) failing.push(index)
+    })
+  } else {
+    failing = indicesWhere(values, (value) => !validator.isValid(value))
+  }
+
+  const invalid = failing.map((index) => values[index])
+  if (invalid.length === 0) return undefined
+
+  const share = (invalid.length / checked) * 100
+  const examples = Array.from(new Set(invalid))
+    .slice(0, MAX_EXAMPLES)
+    .map((e) => `"${e}"`)
+    .join(", ")
+
+  return {
+    column,
+    severity: share > 20 ? "Critical" : share > 5 ? "Warning" : "Info",
+    type: "Invalid Format",
+    description: `${share.toFixed(1)}% of values are not valid ${validator.label} (e.g. ${examples})`,
+    count: invalid.length,
+    percentage: (invalid.length / data.length) * 100,
+    explanation: `${column} holds ${validator.label}${countryColumn ? `, checked against the format for each row's ${countryColumn}` : ""}. ${validator.explanation}`,
+    recommendation: `Correct or null out the malformed values in ${column} and validate the format at the point of entry.`,
+    rowReferences: rowReferences(failing.map((index) => present[index])),
+    examples: exampleValues(invalid),
+  }
+}
@@ -0,0 +1,150 @@
+import * as XLSX from "xlsx"
+import type { DataIssue } from "@/lib/types"
+
+export interface ColumnCellStats {
+  numbers: number
+  dates: number
+  text: number
+  numbersAsText: number
+  errors: Record<string, number>
+  errorRows: number[]
+}
+
+export interface WorkbookSheet {
+  name: string
+  headers: string[]
+  rows: Record<string, string>[]
+  cellStats: Record<string, ColumnCellStats>
+}
+
+export const WORKBOOK_EXTENSIONS = [".xlsx", ".xls"]
+
+export const WORKBOOK_MIME_TYPES = [
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.ms-excel",
+]
+
+function emptyStats(): ColumnCellStats {
+  return { numbers: 0, dates: 0, text: 0, numbersAsText: 0, errors: {}, errorRows: [] }
+}
+
+function cellText(cell: XLSX.CellObject | undefined): string {
+  if (!cell || cell.v === undefined || cell.v === null) return ""
+  if (cell.t === "d" && cell.v instanceof Date) return cell.v.toISOString()
+  if (cell.t === "e") return cell.w || "#ERROR"
+  return String(cell.v)
+}
+
+function readSheet(name: string, sheet: XLSX.WorkSheet): WorkbookSheet {
+  if (!sheet["!ref"]) return { name, headers: [], rows: [], cellStats: {} }
+
+  const range = XLSX.utils.decode_range(sheet["!ref"])
+  const cell = (r: number, c: number) => sheet[XLSX.utils.encode_cell({ r, c })] as XLSX.CellObject | undefined
+
+  // The first row is the header; blank header cells get positional names
+  const headers: string[] = []
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    headers.push(cellText(cell(range.s.r, c)).trim() || `column_${c - range.s.c + 1}`)
+  }
+
+  const rows: Record<string, string>[] = []
+  const cellStats: Record<string, ColumnCellStats> = Object.fromEntries(headers.map((h) => [h, emptyStats()]))
+
+  for (let r = range.s.r + 1; r <= range.e.r; r++) {
+    const row: Record<string, string> = {}
+    let blank = true
+
+    headers.forEach((header, index) => {
+      const current = cell(r, range.s.c + index)
+      const value = cellText(current)
+      const stats = cellStats[header]
+      row[header] = value
+      if (value !== "") blank = false
+
+      switch (current?.t) {
+        case "n":
+          stats.numbers++
+          break
+        case "d":
+          stats.dates++
+          break
+        case "e":
+          stats.errors[value] = (stats.errors[value] || 0) + 1
+          // Spreadsheet row numbers are 1-based and include the header
+          stats.errorRows.push(r + 1)
+          break
+        case "s":
+          if (value.trim() === "") break
+          if (!isNaN(Number(value.trim()))) stats.numbersAsText++
+          else stats.text++
+          break
+      }
+    })
+
+    if (!blank) rows.push(row)
+  }
+
+  return { name, headers, rows, cellStats }
+}
+
+export function readWorkbook(buffer: ArrayBuffer): WorkbookSheet[] {
+  const workbook = XLSX.read(new Uint8Array(buffer), { type: "array", cellDates: true })
+  return workbook.SheetNames.map((name) => readSheet(name, workbook.Sheets[name]))
+}
+
+export function cellTypeIssues({ rows, cellStats }: WorkbookSheet): DataIssue[] {
+  const issues: DataIssue[] = []
+  const totalRows = rows.length
+
+  Object.entries(cellStats).forEach(([column, stats]) => {
+    const errorCount = Object.values(stats.errors).reduce((sum, n) => sum + n, 0)
+    if (errorCount > 0) {
+      const breakdown = Object.entries(stats.errors)
+        .map(([code, n]) => `${n}× ${code}`)
+        .join(", ")
+      const percentage = (errorCount / totalRows) * 100
+      issues.push({
+        column,
+        severity: percentage > 5 ? "Critical" : "Warning",
+        type: "Formula Error",
+        description: `${errorCount} cells contain formula errors (${breakdown})`,
+        count: errorCount,
+        percentage,
+        explanation: `Formulas in ${column} evaluate to errors such as #N/A or #DIV/0!, usually from failed lookups, missing references or division by zero.`,
+        recommendation: `Fix the formulas starting at row ${stats.errorRows[0]}, or wrap them in IFERROR if a blank result is acceptable.`,
+      })
+    }
+
+    // Only flag numbers stored as text when the rest of the column is genuinely numeric
+    if (stats.numbersAsText > 0 && stats.numbers > 0) {
+      const percentage = (stats.numbersAsText / totalRows) * 100
+      issues.push({
+        column,
+        severity: "Warning",
+        type: "Number Stored as Text",
+        description: `${stats.numbersAsText} numeric values are stored as text`,
+        count: stats.numbersAsText,
+        percentage,
+        explanation: `Text-formatted numbers in ${column} are skipped by SUM, sorting and pivot tables, so aggregates silently come out wrong.`,
+        recommendation: `Convert the text cells in ${column} to numbers (e.g. Data → Text to Columns) and set a numeric cell format.`,
+      })
+    }
+
+    if (stats.dates > 0 && stats.text + stats.numbersAsText + stats.numbers > 0) {
+      const mixed = stats.text + stats.numbersAsText + stats.numbers
+      const percentage = (mixed / totalRows) * 100
+      issues.push({
+        column,
+        severity: percentage > 5 ? "Warning" : "Info",
+        type: "Mixed Cell Types",
+        description: `${mixed} cells in a date column are not stored as dates`,
+        count: mixed,
+        percentage,
+        explanation: `${column} mixes real date cells with text or plain numbers, which usually means some dates were typed by hand or pasted from another system.`,
+        recommendation: `Re-enter or convert the non-date cells in ${column} using a single date format.`,
+      })
+    }
+  })
+
+  return issues
+}